@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { Entry, FieldSchema } from './types';
+import { runChatTool, trimToolResult } from './index';
+
+const schemas: Record<string, FieldSchema[]> = {
+  exercise: [{ key: 'calories', label: '卡路里', type: 'number' }],
+  dining: [{ key: 'calories', label: '卡路里', type: 'number' }],
+  movie: [{ key: 'title', label: '电影名称', type: 'text' }]
+};
+
+const entry = (id: string, category: string, details: Record<string, any>): Entry => ({ id, date: '2025-03-01', category, event: id, details });
+
+const ctx = {
+  entries: [
+    entry('run', 'exercise', { calories: 300 }),
+    entry('lunch', 'dining', { calories: 700 }),
+    entry('dinner', 'dining', { calories: 500 }),
+    entry('film', 'movie', { title: 'Dune' })
+  ],
+  rawLogs: [],
+  customSchemas: schemas,
+  categoryMeta: { exercise: {}, dining: {}, movie: {} },
+  currencySettings: { baseCurrency: 'CNY', exchangeRates: [] }
+};
+
+describe('aggregate_entries', () => {
+  it('aggregates a field across every category that has it when no category is given', () => {
+    const result = runChatTool('aggregate_entries', { field: 'calories', group_by: 'category' }, ctx);
+    expect(result.sum).toBe(1500);
+    expect(result.groups).toEqual([
+      expect.objectContaining({ key: 'exercise', sum: 300 }),
+      expect.objectContaining({ key: 'dining', count: 2, sum: 1200 })
+    ]);
+  });
+
+  it('counts entries per category without a field', () => {
+    const result = runChatTool('aggregate_entries', { group_by: 'category' }, ctx);
+    expect(result.count).toBe(4);
+    expect(result.groups.map((g: any) => g.key)).toEqual(['exercise', 'dining', 'movie']);
+  });
+
+  it('reports fields that are not numeric anywhere', () => {
+    expect(runChatTool('aggregate_entries', { field: 'title' }, ctx).error).toMatch(/No category/);
+    expect(runChatTool('aggregate_entries', { category: 'movie', field: 'title' }, ctx).error).toMatch(/not a numeric field/);
+  });
+});
+
+describe('trimToolResult', () => {
+  it('keeps totals and cuts long lists and strings to a preview', () => {
+    const entries = Array.from({ length: 8 }, (_, i) => ({ date: '2025-01-01', event: `e${i}` }));
+    const trimmed = trimToolResult({ total: 8, entries, note: 'x'.repeat(300) });
+    expect(trimmed.total).toBe(8);
+    expect(trimmed.entries).toHaveLength(6);
+    expect(trimmed.entries[5]).toBe('… 3 more');
+    expect(trimmed.note).toHaveLength(201);
+  });
+});
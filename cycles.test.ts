@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { Entry } from './types';
+import { analyzeCycles, buildCycleMarkers } from './cycles';
+
+let nextId = 0;
+const log = (date: string, status: string, category = 'physiology'): Entry =>
+  ({ id: `p${nextId++}`, date, category, event: status, details: { status } });
+
+// A period from `start` to `end` (inclusive), logged as 开始 ... 结束
+const period = (start: string, end: string) => [log(start, '开始'), log(end, '结束')];
+
+describe('analyzeCycles', () => {
+  it('averages regular cycles and predicts the next periods and fertile windows', () => {
+    const entries = [...period('2025-01-01', '2025-01-05'), ...period('2025-01-29', '2025-02-02'), ...period('2025-02-26', '2025-03-02')];
+    const analysis = analyzeCycles(entries, '2025-03-05');
+    expect(analysis.cycleLengths).toEqual([28, 28]);
+    expect(analysis.avgCycleLength).toBe(28);
+    expect(analysis.avgPeriodLength).toBe(5);
+    expect(analysis.predictions).toHaveLength(3);
+    expect(analysis.predictions[0]).toEqual({
+      start: '2025-03-26', end: '2025-03-30', ovulation: '2025-03-12', fertileStart: '2025-03-07', fertileEnd: '2025-03-13'
+    });
+    expect(analysis.predictions[1].start).toBe('2025-04-23');
+    expect(analysis.missingEnds).toEqual([]);
+  });
+
+  it('handles irregular cycles and ignores logging gaps outside the plausible range', () => {
+    const entries = [
+      ...period('2025-01-01', '2025-01-04'),
+      ...period('2025-01-26', '2025-01-30'), // 25 days
+      ...period('2025-03-02', '2025-03-07'), // 35 days
+      ...period('2025-03-30', '2025-04-03'), // 28 days
+      ...period('2025-08-01', '2025-08-05')  // 124 days: months not logged
+    ];
+    const analysis = analyzeCycles(entries, '2025-08-10');
+    expect(analysis.cycleLengths).toEqual([25, 35, 28]);
+    expect(analysis.avgCycleLength).toBe(29.3);
+    expect(analysis.predictions[0].start).toBe('2025-08-30'); // 08-01 + round(29.3)
+  });
+
+  it('falls back to default lengths with a single period', () => {
+    const analysis = analyzeCycles(period('2025-01-01', '2025-01-06'), '2025-01-10');
+    expect(analysis.cycleLengths).toEqual([]);
+    expect(analysis.avgCycleLength).toBeNull();
+    expect(analysis.avgPeriodLength).toBe(6);
+    expect(analysis.predictions[0]).toMatchObject({ start: '2025-01-29', end: '2025-02-03' });
+  });
+
+  it('returns nothing to predict without periods', () => {
+    const analysis = analyzeCycles([log('2025-01-01', '流量大'), log('2025-01-02', '开始', 'diary')], '2025-01-10');
+    expect(analysis.periods).toEqual([]);
+    expect(analysis.predictions).toEqual([]);
+  });
+
+  it('keeps a recent open period open and flags an old one as missing its end', () => {
+    const entries = [log('2025-03-01', '开始'), log('2025-03-02', '流量大')];
+    const recent = analyzeCycles(entries, '2025-03-03');
+    expect(recent.periods).toEqual([{ start: '2025-03-01', end: null, lastSeen: '2025-03-02', startEntryId: entries[0].id }]);
+    expect(recent.missingEnds).toEqual([]);
+    expect(analyzeCycles(entries, '2025-03-20').missingEnds).toHaveLength(1);
+  });
+
+  it('flags a period that was followed by a new start without an end', () => {
+    const entries = [log('2025-01-01', '开始'), ...period('2025-01-29', '2025-02-02')];
+    const analysis = analyzeCycles(entries, '2025-02-05');
+    expect(analysis.missingEnds.map(p => p.start)).toEqual(['2025-01-01']);
+    expect(analysis.cycleLengths).toEqual([28]);
+  });
+
+  it('collects end markers with no open period', () => {
+    const stray = log('2025-01-10', '结束');
+    const analysis = analyzeCycles([...period('2025-01-01', '2025-01-05'), stray], '2025-01-12');
+    expect(analysis.strayEnds).toEqual([stray]);
+  });
+
+  it('skips whole predicted cycles that passed unlogged but keeps a late one', () => {
+    const analysis = analyzeCycles(period('2025-01-01', '2025-01-05'), '2025-04-15');
+    expect(analysis.predictions[0].start).toBe('2025-03-26');
+  });
+
+  it('orders entries by date and time regardless of input order', () => {
+    const end = { ...log('2025-01-01', '结束'), details: { status: '结束', time: '20:00' } };
+    const start = { ...log('2025-01-01', '开始'), details: { status: '开始', time: '08:00' } };
+    const analysis = analyzeCycles([end, start], '2025-01-02');
+    expect(analysis.periods[0]).toMatchObject({ start: '2025-01-01', end: '2025-01-01' });
+    expect(analysis.strayEnds).toEqual([]);
+  });
+});
+
+describe('buildCycleMarkers', () => {
+  it('paints recorded periods, then predictions, fertile windows and ovulation', () => {
+    const markers = buildCycleMarkers(analyzeCycles(period('2025-01-01', '2025-01-03'), '2025-01-05'));
+    expect(['2025-01-01', '2025-01-02', '2025-01-03'].map(d => markers[d])).toEqual(['period', 'period', 'period']);
+    expect(markers['2025-01-04']).toBeUndefined();
+    expect(markers['2025-01-29']).toBe('predicted');
+    expect(markers['2025-01-15']).toBe('ovulation');
+    expect(markers['2025-01-10']).toBe('fertile');
+    expect(markers['2025-01-16']).toBe('fertile');
+  });
+
+  it('limits an open period to its last logged day, or the average length when nothing followed the start', () => {
+    const withFlow = buildCycleMarkers(analyzeCycles([log('2025-03-01', '开始'), log('2025-03-02', '流量小')], '2025-03-02'));
+    expect(withFlow['2025-03-02']).toBe('period');
+    expect(withFlow['2025-03-03']).toBeUndefined();
+
+    const bare = buildCycleMarkers(analyzeCycles([log('2025-03-01', '开始')], '2025-03-01'));
+    expect(bare['2025-03-05']).toBe('period');
+    expect(bare['2025-03-06']).toBeUndefined();
+  });
+});
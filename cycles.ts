@@ -0,0 +1,112 @@
+import type { Entry } from './types';
+import { addDays, daysBetween } from './dates';
+
+// Periods are rebuilt from physiology entries: a 开始 opens one, the next 结束 closes it, and flow/pain
+// statuses in between only extend the last day seen. Everything here is a pure function of Entry[].
+
+export const CYCLE_CATEGORY = 'physiology';
+export const DEFAULT_CYCLE_LENGTH = 28;
+export const DEFAULT_PERIOD_LENGTH = 5;
+const MAX_PERIOD_DAYS = 10; // An open period older than this is treated as missing its end marker
+const CYCLE_LENGTH_RANGE = [15, 60]; // Gaps outside this are logging gaps, not cycles
+const CYCLE_AVERAGE_WINDOW = 6; // Averages use the most recent cycles only
+const PREDICTED_CYCLES = 3;
+
+export interface PeriodRecord {
+  start: string;
+  end: string | null; // Date of the 结束 entry; null when it is missing
+  lastSeen: string; // Latest physiology entry belonging to this period
+  startEntryId: string;
+}
+
+export interface PredictedPeriod {
+  start: string;
+  end: string;
+  ovulation: string;
+  fertileStart: string;
+  fertileEnd: string;
+}
+
+export interface CycleAnalysis {
+  periods: PeriodRecord[];
+  cycleLengths: number[]; // Days between consecutive starts, oldest first
+  avgCycleLength: number | null;
+  avgPeriodLength: number | null;
+  predictions: PredictedPeriod[];
+  missingEnds: PeriodRecord[];
+  strayEnds: Entry[]; // 结束 entries with no open period to close
+}
+
+export type CycleMarker = 'period' | 'predicted' | 'fertile' | 'ovulation';
+
+const average = (values: number[]) => values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10 : null;
+
+export const analyzeCycles = (entries: Entry[], today: string): CycleAnalysis => {
+  const records = entries
+    .filter(e => e.category === CYCLE_CATEGORY && /^\d{4}-\d{2}-\d{2}$/.test(e.date))
+    .sort((a, b) => a.date.localeCompare(b.date) || String(a.details?.time || '').localeCompare(String(b.details?.time || '')));
+
+  const periods: PeriodRecord[] = [];
+  const strayEnds: Entry[] = [];
+  let open: PeriodRecord | null = null;
+  records.forEach(e => {
+    const status = e.details?.status;
+    if (status === '开始') {
+      open = { start: e.date, end: null, lastSeen: e.date, startEntryId: e.id };
+      periods.push(open);
+    } else if (status === '结束') {
+      if (open) {
+        open.end = e.date;
+        open.lastSeen = e.date;
+        open = null;
+      } else {
+        strayEnds.push(e);
+      }
+    } else if (open) {
+      open.lastSeen = e.date;
+    }
+  });
+
+  const missingEnds = periods.filter(p => !p.end && (p !== open || daysBetween(p.start, today) > MAX_PERIOD_DAYS));
+  const cycleLengths = periods.slice(1)
+    .map((p, i) => daysBetween(periods[i].start, p.start))
+    .filter(len => len >= CYCLE_LENGTH_RANGE[0] && len <= CYCLE_LENGTH_RANGE[1]);
+  const avgCycleLength = average(cycleLengths.slice(-CYCLE_AVERAGE_WINDOW));
+  const avgPeriodLength = average(periods.filter(p => p.end).slice(-CYCLE_AVERAGE_WINDOW).map(p => daysBetween(p.start, p.end!) + 1));
+
+  const predictions: PredictedPeriod[] = [];
+  const last = periods[periods.length - 1];
+  if (last) {
+    const cycle = Math.round(avgCycleLength ?? DEFAULT_CYCLE_LENGTH);
+    const length = Math.round(avgPeriodLength ?? DEFAULT_PERIOD_LENGTH);
+    let start = addDays(last.start, cycle);
+    // Skip whole cycles that passed without being logged; a recently missed start stays (the period is late)
+    while (daysBetween(start, today) > cycle) start = addDays(start, cycle);
+    for (let i = 0; i < PREDICTED_CYCLES; i++, start = addDays(start, cycle)) {
+      const ovulation = addDays(start, -14);
+      predictions.push({ start, end: addDays(start, length - 1), ovulation, fertileStart: addDays(ovulation, -5), fertileEnd: addDays(ovulation, 1) });
+    }
+  }
+
+  return { periods, cycleLengths, avgCycleLength, avgPeriodLength, predictions, missingEnds, strayEnds };
+};
+
+// Marker per date for calendars. Recorded periods without an end use their last seen day (or the
+// average length) so a forgotten 结束 doesn't paint the calendar red indefinitely.
+export const buildCycleMarkers = (analysis: CycleAnalysis): Record<string, CycleMarker> => {
+  const markers: Record<string, CycleMarker> = {};
+  const paint = (from: string, to: string, marker: CycleMarker) => {
+    for (let d = from; d <= to; d = addDays(d, 1)) if (!markers[d]) markers[d] = marker;
+  };
+  const fallbackLength = Math.round(analysis.avgPeriodLength ?? DEFAULT_PERIOD_LENGTH);
+  analysis.periods.forEach(p => {
+    const estimatedEnd = p.lastSeen > p.start ? p.lastSeen : addDays(p.start, fallbackLength - 1);
+    paint(p.start, p.end || estimatedEnd, 'period');
+  });
+  analysis.predictions.forEach(p => {
+    paint(p.start, p.end, 'predicted');
+    markers[p.ovulation] ||= 'ovulation';
+    paint(p.fertileStart, p.fertileEnd, 'fertile');
+  });
+  return markers;
+};
@@ -0,0 +1,17 @@
+// Calendar-date helpers. Dates are local YYYY-MM-DD strings throughout the app.
+
+export const formatDate = (date: Date) => {
+  // Local YYYY-MM-DD
+  const offset = date.getTimezoneOffset() * 60000;
+  const local = new Date(date.getTime() - offset);
+  return local.toISOString().split('T')[0];
+};
+
+export const addDays = (dateStr: string, days: number) => {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to + 'T00:00:00').getTime() - new Date(from + 'T00:00:00').getTime()) / 86400000);
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Entry, FieldSchema } from './types';
+import { planFieldConversion, checkEntryFields, INITIAL_SCHEMAS } from './index';
+
+const drink = (id: string, details: Record<string, any>): Entry => ({ id, date: '2025-01-01', category: 'drinks', event: id, details });
+
+const schema = (extra: FieldSchema): FieldSchema[] => [
+  { key: 'calories', label: '热量', type: 'number' },
+  { key: 'cups', label: '杯数', type: 'text' },
+  extra
+];
+
+describe('planFieldConversion', () => {
+  it('previews a text-to-number conversion without touching the entries', () => {
+    const entries = [drink('tea', { cups: '3杯' }), drink('water', { cups: 'a few' }), drink('juice', { calories: 100 })];
+    const frozen = structuredClone(entries);
+    const fields = schema({ key: 'note', label: '备注', type: 'text' }).map(f => f.key === 'cups' ? { ...f, type: 'number' as const } : f);
+    const plan = planFieldConversion(entries, 'drinks', fields);
+    expect(plan.map(p => [p.before.id, p.after.details.cups, p.changed])).toEqual([['tea', 3, ['cups']]]);
+    expect(entries).toEqual(frozen);
+  });
+
+  it('keeps stored values of a field that just became computed while its formula is empty or unfinished', () => {
+    const entries = [drink('tea', { calories: 40, cups: '2', per_cup: 20 })];
+    const computed = (formula?: string) => schema({ key: 'per_cup', label: '每杯', type: 'computed', formula });
+    expect(planFieldConversion(entries, 'drinks', computed())).toEqual([]);
+    expect(planFieldConversion(entries, 'drinks', computed('calories /'))).toEqual([]);
+    expect(planFieldConversion(entries, 'drinks', computed('calories / missing'))).toEqual([]);
+  });
+
+  it('recomputes once the formula evaluates', () => {
+    const entries = [drink('tea', { calories: 40, cups: 4, per_cup: 20 }), drink('other', { calories: 40 })];
+    const [p] = planFieldConversion(entries, 'drinks', schema({ key: 'per_cup', label: '每杯', type: 'computed', formula: 'calories / cups' }));
+    expect(p.before.id).toBe('tea');
+    expect(p.after.details.per_cup).toBe(10);
+  });
+});
+
+describe('checkEntryFields', () => {
+  const now = new Date(2025, 0, 1, 9, 30);
+
+  it('lets a freshly quick-added entry be saved', () => {
+    const quickAdd: Entry = { id: 'q', date: '2025-01-01', category: 'diary', event: 'New Event', details: { summary: 'New entry', time: '09:30', notes: '' } };
+    expect(checkEntryFields(quickAdd, INITIAL_SCHEMAS.diary, now).errors).toEqual({});
+    const periodEnd: Entry = { id: 'p', date: '2025-01-01', category: 'physiology', event: '生理期结束', details: { summary: '生理期结束', time: '09:30', status: '结束', notes: '' } };
+    expect(checkEntryFields(periodEnd, INITIAL_SCHEMAS.physiology, now).errors).toEqual({});
+  });
+
+  it('fills cleared standard fields the way organizer output is filled', () => {
+    const cleared: Entry = { id: 'c', date: '2025-01-01', category: 'diary', event: '散步', details: {} };
+    const { details, errors } = checkEntryFields(cleared, INITIAL_SCHEMAS.diary, now);
+    expect(errors).toEqual({});
+    expect(details).toMatchObject({ summary: '散步', time: '09:30' });
+  });
+
+  it('still requires fields without a fallback', () => {
+    const entry: Entry = { id: 'm', date: '2025-01-01', category: 'finance_tracking', event: '午饭', details: { summary: '午饭', time: '12:00', notes: '' } };
+    const { errors } = checkEntryFields(entry, INITIAL_SCHEMAS.finance_tracking, now);
+    expect(Object.keys(errors)).toContain('transaction_type');
+    expect(Object.keys(errors)).not.toContain('notes');
+  });
+});
@@ -1,7 +1,19 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, Type, Schema, Content, FunctionDeclaration, FunctionCallingConfigMode, FunctionCall, Part, GenerateContentConfig, ThinkingLevel } from "@google/genai";
 import * as Icons from 'lucide-react';
+import type {
+  FieldType, FieldSchema, MoneyValue, GroupDef, TrendMode, Entry, ChatMessage, ToolStep, EntryValidation, AudioClip, StoredImage, RawLog,
+  ModelPipeline, ModelProfile, AISettings, ChatSettings, ExchangeRate, CurrencySettings, LifeOSData, BackupBundle, ImportMode,
+  CategoryExample, CategoryTemplate, CategoryTemplateFile
+} from './types';
+import {
+  CollectionName, CollectionRecords, StorageAdapter, COLLECTION_KEYS, createMemoryStorage, createIndexedDBStorage, VALUE_KEYS,
+  migrateFromLocalStorage, backfillRawLogIds, diffRecords, saveMigratedData, ensureUniqueTimestamps, uniqueTimestamp
+} from './storage';
+import { formatDate, addDays, daysBetween } from './dates';
+import {
+  CYCLE_CATEGORY, DEFAULT_CYCLE_LENGTH, DEFAULT_PERIOD_LENGTH, PeriodRecord, CycleAnalysis, CycleMarker, analyzeCycles, buildCycleMarkers
+} from './cycles';
 
 // --- Constants & Configuration ---
 
@@ -17,7 +29,14 @@ const INITIAL_GROUPS = [
 
 const INITIAL_CATEGORY_META: Record<string, any> = {
   // Life (日常)
-  finance_tracking: { group: 'life', color: 'bg-emerald-500', icon: 'Wallet', label: '记账' },
+  finance_tracking: {
+    group: 'life', color: 'bg-emerald-500', icon: 'Wallet', label: '记账',
+    hints: "amount is negative for an expense and positive for income. Infer tags from the tag options. currency defaults to 'CNY'.",
+    examples: [
+      { input: '午饭麦当劳花了35', details: '{"transaction_type":"支出","amount":-35,"currency":"CNY","tags":["餐饮"],"merchant":"麦当劳"}' },
+      { input: '这个月工资到账12000', details: '{"transaction_type":"收入","amount":12000,"currency":"CNY","tags":["工资"]}' }
+    ]
+  },
   diary: { group: 'life', color: 'bg-indigo-500', icon: 'BookHeart', label: '日记/碎碎念' },
   study: { group: 'life', color: 'bg-blue-500', icon: 'GraduationCap', label: '学习' },
   entertainment: { group: 'life', color: 'bg-purple-500', icon: 'Gamepad2', label: '娱乐' },
@@ -28,7 +47,7 @@ const INITIAL_CATEGORY_META: Record<string, any> = {
   personal_care: { group: 'life', color: 'bg-rose-400', icon: 'Sparkles', label: '个人护理' },
   
   // Body (身体)
-  exercise: { group: 'body', color: 'bg-orange-600', icon: 'Dumbbell', label: '锻炼' },
+  exercise: { group: 'body', color: 'bg-orange-600', icon: 'Dumbbell', label: '锻炼', trend: 'weekly' },
   sleep: { group: 'body', color: 'bg-slate-500', icon: 'Moon', label: '睡眠' },
   weight: { group: 'body', color: 'bg-lime-600', icon: 'Scale', label: '体重' },
   medical: { group: 'body', color: 'bg-red-500', icon: 'Stethoscope', label: '看病' },
@@ -43,36 +62,23 @@ const INITIAL_CATEGORY_META: Record<string, any> = {
   other: { group: 'life', color: 'bg-gray-500', icon: 'Hash', label: '其他' },
 };
 
-// Define Schema types for dynamic form
-type FieldType = 'text' | 'number' | 'select' | 'multiselect' | 'date' | 'rating';
+const FIELD_TYPES: FieldType[] = ['text', 'number', 'select', 'multiselect', 'date', 'rating', 'duration', 'time', 'boolean', 'money', 'reference', 'computed'];
 
-interface FieldSchema {
-  key: string;
-  label: string;
-  type: FieldType;
-  required?: boolean;
-  options?: string[]; // For select/multiselect
-  unit?: string;
-  placeholder?: string;
-}
-
-interface GroupDef {
-    id: string;
-    label: string;
-}
+// Fields every category shares (see createSchema); they can't be removed or retyped
+const STANDARD_FIELD_KEYS = ['summary', 'time', 'duration', 'notes'];
 
 // Helper to create standardized schemas
 const createSchema = (specificFields: FieldSchema[]): FieldSchema[] => {
     return [
         { key: 'summary', label: '简述', type: 'text', required: true, placeholder: '10字以内具体的事件描述' },
-        { key: 'time', label: '时间', type: 'text', required: true, placeholder: 'HH:mm' },
-        { key: 'duration', label: '时长', type: 'text', required: false, placeholder: '例如: 30分钟' },
+        { key: 'time', label: '时间', type: 'time', required: true, placeholder: 'HH:mm' },
+        { key: 'duration', label: '时长', type: 'duration', required: false, placeholder: '例如: 30分钟' },
         ...specificFields,
         { key: 'notes', label: '详情', type: 'text', required: true, placeholder: '原始信息全部内容原封不动的填写在这里' }
     ];
 };
 
-const INITIAL_SCHEMAS: Record<string, FieldSchema[]> = {
+export const INITIAL_SCHEMAS: Record<string, FieldSchema[]> = {
   finance_tracking: createSchema([
     { key: 'transaction_type', label: '交易类型', type: 'select', required: true, options: ['支出', '收入', '转账'] },
     { key: 'amount', label: '金额', type: 'number', required: true, unit: '元' },
@@ -92,7 +98,7 @@ const INITIAL_SCHEMAS: Record<string, FieldSchema[]> = {
     { key: 'feeling', label: '感受', type: 'text', required: false },
   ]),
   sleep: createSchema([
-    { key: 'waketime', label: '醒来时间', type: 'text', required: false },
+    { key: 'waketime', label: '醒来时间', type: 'time', required: false },
     { key: 'quality', label: '睡眠质量', type: 'select', required: false, options: ['很好', '还行', '一般', '差'] },
   ]),
   personal_care: createSchema([
@@ -157,8 +163,8 @@ const DEFAULT_CHAT_INSTRUCTIONS = `You are a friendly, empathetic AI assistant i
 Your user interacts with you to record their life, emotions, work, and health.
 Style: Warm, encouraging, concise, and natural. Use Chinese.
 If the user shares good news, celebrate. If bad news, comfort.
-You are NOT the database. You are the companion. The database recording happens in the background.
-If the user asks about previous records, you can generally refer to "the dashboard".
+The database recording happens in the background; you don't need to confirm saves.
+If the user asks about their past records (spending, workouts, visits, books...), use the provided tools to look them up instead of guessing.
 `;
 
 const DEFAULT_ORGANIZER_INSTRUCTIONS = `You are a strict Data Entry Clerk for a personal database.
@@ -171,17 +177,14 @@ Input: A natural language message (which may contain multiple events) and the Cu
     *   \`event\`: The "Title". Must be extremely concise, 1-3 words (e.g., "午餐", "跑步", "买书").
     *   \`details.summary\`: A short description (approx. 10 words) with key context (e.g., "麦当劳双层吉士套餐", "公园慢跑5公里").
     *   \`details.time\`: The time of occurrence in HH:mm format. Infer from context or use current time if unspecified.
-    *   \`details.duration\`: Duration string if mentioned (e.g., "30分钟", "2小时"). If not mentioned, leave empty.
+    *   \`details.duration\`: Duration in minutes if mentioned (e.g., 30 for "30分钟", 120 for "2小时"). If not mentioned, leave empty.
 3.  **Specific Data Mapping**:
     *   Identify the \`category\` code.
     *   Extract structured data matching that category's specific fields.
 4.  **Catch-All Rule**:
     *   Put the original information received into \`details.notes\`. Do not ignore any user details.
-5.  **Finance Rules**:
-    *   Category: \`finance_tracking\`.
-    *   Amount: Negative for expense, Positive for income.
-    *   Tags: Infer from '餐饮', '交通', '购物', '娱乐', '医疗', '教育', '住房', '旅行', '人情', '工资', '理财', '其他'.
-    *   Currency: Default 'CNY'.
+5.  **Category Guidance**:
+    *   A table may come with a description, hints and examples; follow them when filling its fields.
 
 **Output JSON Schema:**
 Return an array of objects.
@@ -192,7 +195,7 @@ Return an array of objects.
   "details": {
      "summary": "10 word description",
      "time": "HH:mm",
-     "duration": "Duration string (optional)",
+     "duration": "Minutes (optional)",
      "notes": "All other unstructured info",
      // ... Plus category specific keys
   }
@@ -208,45 +211,81 @@ Category: 'diary'.
 Event Title: "闲聊速记".
 `;
 
-// --- Interfaces ---
+const ORGANIZER_IMAGE_INSTRUCTIONS = `A photo is attached to the user input. Read it as part of the input:
+*   Receipt, invoice or payment screenshot: create a \`finance_tracking\` entry; take \`amount\` from the total paid and \`merchant\` from the shop name.
+*   Meal or food: create a \`dining\` entry; list the visible dishes in \`food_items\` and estimate \`calories\` for the whole meal.
+*   A receipt for a meal yields both entries. Otherwise use whatever category the photo shows.
+Anything the text says overrides what you read from the photo.
+`;
 
-interface Entry {
-  id: string;
-  date: string; // YYYY-MM-DD
-  category: string;
-  event: string;
-  details: Record<string, any>;
-  image?: string; // Base64 data URI
-}
+// Entries the organizer is less sure about than this wait as drafts instead of being saved
+const DRAFT_CONFIDENCE_THRESHOLD = 0.7;
 
-interface ChatMessage {
-  role: 'user' | 'model' | 'system';
-  text: string;
-  timestamp: number;
-  relatedEntryIds?: string[]; // IDs of entries created by this message
-}
+const ORGANIZER_CONFIDENCE_INSTRUCTIONS = `For every entry also report:
+*   \`confidence\`: 0-1, how sure you are about the category and the key values. Vague input ("spent 200 yesterday on stuff") scores low.
+*   \`missing_fields\`: keys of required fields the input doesn't tell you. Leave those fields empty; never make values up.
+*   \`question\`: if confidence is below ${DRAFT_CONFIDENCE_THRESHOLD} or fields are missing, one short question in Chinese that would settle it (e.g. "这200元花在什么上了？"). Otherwise omit it.
+`;
 
-interface RawLog {
-    id: string;
-    timestamp: number;
-    text: string;
-}
+const DRAFT_ANSWER_INSTRUCTIONS = `You asked the user a follow-up question about a draft entry and they replied.
+Update the draft with what the reply tells you and return the whole entry, keeping everything the reply doesn't change.
+If the reply is not an answer to the question at all (a new topic or a new event), set \`answered\` to false and return the draft unchanged.
+`;
 
-interface AISettings {
-  chatInstructions: string;
-  organizerInstructions: string;
-  loggerInstructions: string;
-  batchSize: number;
-}
+const TRANSCRIPTION_INSTRUCTIONS = `Transcribe this voice note verbatim in Simplified Chinese.
+Keep English words, brand names and numbers as spoken; add punctuation. Return only the transcript, no commentary.
+If nothing intelligible is said, return an empty string.
+`;
 
-interface ChatSettings {
-    chatEnabled: boolean;
-    organizerEnabled: boolean;
-    contextRounds: number; // 9999 for infinite
-    contextMode: 'global' | 'today' | 'week' | 'custom';
-    customStartDate: string;
-    customEndDate: string;
-}
+const REPORT_NARRATIVE_INSTRUCTIONS = `You write the narrative for a personal "LifeOS" period review.
+You are given computed statistics as JSON, never raw entries; do not invent facts beyond them.
+Write 3-5 short paragraphs in fluent Simplified Chinese, warm but not gushing: highlight the biggest
+activities, notable streaks and busiest days, spending habits, favourite books/films, and the overall mood.
+`;
+
+// --- Default Settings ---
+
+const createModelProfile = (model: string): ModelProfile => ({
+    model,
+    temperature: null,
+    maxOutputTokens: null,
+    thinkingBudget: null,
+    thinkingLevel: null
+});
+
+const DEFAULT_MODEL_PROFILES: Record<ModelPipeline, ModelProfile> = {
+    chat: createModelProfile('gemini-3-pro-preview'),
+    organizer: createModelProfile('gemini-2.5-flash'),
+    classifier: createModelProfile('gemini-2.5-flash-lite'),
+    logger: createModelProfile('gemini-2.5-flash'),
+    vision: createModelProfile('gemini-2.5-flash'),
+    report: createModelProfile('gemini-2.5-flash')
+};
+
+const DEFAULT_AI_SETTINGS: AISettings = {
+    chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
+    organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
+    loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
+    batchSize: 30,
+    models: DEFAULT_MODEL_PROFILES
+};
+
+const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+    baseCurrency: 'CNY',
+    exchangeRates: []
+};
+
+const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+    chatEnabled: true,
+    organizerEnabled: true,
+    contextRounds: 10,
+    contextMode: 'global',
+    customStartDate: new Date().toISOString().split('T')[0],
+    customEndDate: new Date().toISOString().split('T')[0],
+    includeSystemNotices: false,
+    contextTokenBudget: 8000,
+    keepVoiceRecordings: false
+};
 
 // --- Components ---
 
@@ -257,14 +296,62 @@ const IconComponent = ({ name, className }: { name: string; className?: string }
   return <LucideIcon className={className} />;
 };
 
-// --- Helper Functions ---
-const formatDate = (date: Date) => {
-  // Local YYYY-MM-DD
-  const offset = date.getTimezoneOffset() * 60000;
-  const local = new Date(date.getTime() - offset);
-  return local.toISOString().split('T')[0];
+// Time-series line; `average` is drawn as a bolder overlay. Color comes from the text color in `className`.
+const TrendLineChart = ({ points, average, unit, className }: { points: TrendPoint[]; average?: TrendPoint[]; unit?: string; className?: string }) => {
+  if (points.length === 0) return <div className="h-28 flex items-center justify-center text-xs text-gray-700 italic">No data</div>;
+  const times = points.map(p => new Date(p.date + 'T00:00:00').getTime());
+  const values = [...points, ...(average || [])].map(p => p.value);
+  const [tMin, tMax] = [Math.min(...times), Math.max(...times)];
+  const [vMin, vMax] = [Math.min(...values), Math.max(...values)];
+  const pad = (vMax - vMin) * 0.1 || 1;
+  const toXY = (p: TrendPoint) => {
+    const x = tMax === tMin ? 50 : ((new Date(p.date + 'T00:00:00').getTime() - tMin) / (tMax - tMin)) * 100;
+    const y = 100 - ((p.value - vMin + pad) / (vMax - vMin + 2 * pad)) * 100;
+    return `${x},${y}`;
+  };
+  const latest = (average || points)[points.length - 1];
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+        <span>{vMin}–{vMax}{unit}</span>
+        <span className="text-gray-300">{latest.value}{unit}</span>
+      </div>
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-28 overflow-visible">
+        <polyline points={points.map(toXY).join(' ')} fill="none" stroke="currentColor" strokeOpacity={average ? 0.35 : 1} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {average && <polyline points={average.map(toXY).join(' ')} fill="none" stroke="currentColor" strokeWidth={2.5} vectorEffect="non-scaling-stroke" />}
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-gray-600 mt-1">
+        <span>{points[0].date.slice(5)}</span>
+        <span>{points[points.length - 1].date.slice(5)}</span>
+      </div>
+    </div>
+  );
+};
+
+const TrendBarChart = ({ points, unit, className }: { points: TrendPoint[]; unit?: string; className?: string }) => {
+  const max = Math.max(...points.map(p => p.value), 1);
+  return (
+    <div className={className}>
+      <div className="flex items-end gap-0.5 h-28">
+        {points.map(p => (
+          <div key={p.date} className="flex-1 h-full flex flex-col justify-end" title={`${p.date}: ${p.value}${unit || ''}`}>
+            <div className="bg-current opacity-70 hover:opacity-100 rounded-t transition-opacity" style={{ height: `${(p.value / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      {points.length > 0 && (
+        <div className="flex justify-between text-[10px] font-mono text-gray-600 mt-1">
+          <span>{points[0].date.slice(5)}</span>
+          <span>max {max}{unit}</span>
+          <span>{points[points.length - 1].date.slice(5)}</span>
+        </div>
+      )}
+    </div>
+  );
 };
 
+// --- Helper Functions ---
 const getRollingWeekRange = (startDate: Date) => {
   const start = new Date(startDate);
   start.setHours(0,0,0,0);
@@ -280,16 +367,31 @@ const isSameDay = (d1: Date, d2: Date) => {
            d1.getDate() === d2.getDate();
 };
 
-const renderDetails = (cat: string, details: Record<string, any>) => {
-  const standardFields = ['summary', 'time', 'duration', 'notes'];
+interface DetailsContext {
+  date: string;
+  currency: CurrencySettings; // Finance amounts are shown converted to the base currency next to the original
+  schema?: FieldSchema[]; // Formats typed fields (durations, money, references...)
+  entries?: Entry[]; // Resolves reference fields to the linked entry
+}
+
+const renderDetails = (cat: string, details: Record<string, any>, context?: DetailsContext) => {
   
   const renderSpecifics = () => {
-    if (cat === 'finance_tracking') {
+    if (cat === FINANCE_CATEGORY) {
+        const amount = signedAmount(details);
         return (
           <div className="mt-1 mb-1">
-             <div className={`font-mono font-bold text-sm ${details.transaction_type === '收入' ? 'text-emerald-400' : 'text-red-400'}`}>
-                 {details.amount ? (details.transaction_type === '支出' && details.amount > 0 ? -details.amount : details.amount) : 0} {details.currency}
+             <div className={`font-mono font-bold text-sm ${isTransfer(details) ? 'text-gray-300' : amount >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                 {amount} {details.currency}
              </div>
+             {context && details.currency && details.currency !== context.currency.baseCurrency && (() => {
+                 const converted = convertedAmount({ date: context.date, details } as Entry, context.currency);
+                 return (
+                     <div className="text-[10px] font-mono text-gray-500">
+                         {converted === null ? 'no exchange rate' : `≈ ${formatMoney(converted)} ${context.currency.baseCurrency}`}
+                     </div>
+                 );
+             })()}
              {details.merchant && <div className="text-[10px] text-gray-500">@{details.merchant}</div>}
              {details.tags && <div className="flex flex-wrap gap-1 mt-1">{
                  (Array.isArray(details.tags) ? details.tags : [details.tags]).map((t:string, i:number) => (
@@ -309,9 +411,10 @@ const renderDetails = (cat: string, details: Record<string, any>) => {
     }
     // Default fallback loop for non-standard fields
     return Object.entries(details).map(([k, v]) => {
-        if (standardFields.includes(k) || !v) return null;
+        if (STANDARD_FIELD_KEYS.includes(k) || isEmptyValue(v)) return null;
         if (k === 'type' && cat === 'exercise') return null; 
-        return <div key={k} className="text-[10px]"><span className="opacity-50 mr-1 capitalize">{k.replace(/_/g, ' ')}:</span>{String(v)}</div>;
+        const field = context?.schema?.find(f => f.key === k);
+        return <div key={k} className="text-[10px]"><span className="opacity-50 mr-1 capitalize">{k.replace(/_/g, ' ')}:</span>{field ? formatFieldValue(field, v, context?.entries) : formatDetailValue(v)}</div>;
     });
   };
 
@@ -322,7 +425,7 @@ const renderDetails = (cat: string, details: Record<string, any>) => {
               <span className="text-gray-300 font-medium line-clamp-2 flex-1 mr-2" title={details.summary}>{details.summary}</span>
               <div className="text-right whitespace-nowrap">
                   <span className="font-mono text-blue-300">{details.time}</span>
-                  {details.duration && <span className="ml-1 text-gray-600">({details.duration})</span>}
+                  {!isEmptyValue(details.duration) && <span className="ml-1 text-gray-600">({typeof details.duration === 'number' ? formatDuration(details.duration) : details.duration})</span>}
               </div>
           </div>
           {renderSpecifics()}
@@ -335,213 +438,2468 @@ const renderDetails = (cat: string, details: Record<string, any>) => {
   );
 };
 
-// --- Dashboard View Component ---
+// --- Chat Context ---
 
-interface DashboardViewProps {
-  entries: Entry[];
-  viewDate: Date;
-  viewMode: 'day' | 'week' | 'month';
-  setViewDate: (date: Date) => void;
-  setViewMode: (mode: 'day' | 'week' | 'month') => void;
-  setEditingEntry: (entry: Entry) => void;
-  setEntries: React.Dispatch<React.SetStateAction<Entry[]>>;
-  rawLogs: RawLog[];
-  setRawLogs: React.Dispatch<React.SetStateAction<RawLog[]>>;
-  groups: GroupDef[];
-  categoryMeta: Record<string, any>;
-}
+// Rough token estimate: CJK characters are ~1 token each, other text ~4 characters per token
+const estimateTokens = (text: string) => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
 
-const DashboardView = ({ 
-  entries, 
-  viewDate, 
-  viewMode, 
-  setViewDate, 
-  setViewMode, 
-  setEditingEntry, 
-  setEntries,
-  rawLogs,
-  setRawLogs,
-  groups,
-  categoryMeta
-}: DashboardViewProps) => {
-    const [isLogView, setIsLogView] = useState(false);
-    const [editingLogId, setEditingLogId] = useState<string | null>(null);
-    const [editingLogText, setEditingLogText] = useState('');
-    
-    // WEEK VIEW STATE
-    const [weekViewType, setWeekViewType] = useState<'calendar' | 'category'>('calendar');
-    const [weekCategoryFilter, setWeekCategoryFilter] = useState<'all' | string>('all');
-    const [expandedWeekIds, setExpandedWeekIds] = useState<Set<string>>(new Set());
+const filterByContextWindow = (messages: ChatMessage[], settings: ChatSettings, now: Date) => {
+  if (settings.contextMode === 'today') {
+      return messages.filter(m => isSameDay(new Date(m.timestamp), now));
+  } else if (settings.contextMode === 'week') {
+      const { start, end } = getRollingWeekRange(now);
+      return messages.filter(m => m.timestamp >= start.getTime() && m.timestamp <= end.getTime());
+  } else if (settings.contextMode === 'custom') {
+      const s = new Date(settings.customStartDate).getTime();
+      const e = new Date(settings.customEndDate).getTime() + 86400000;
+      return messages.filter(m => m.timestamp >= s && m.timestamp <= e);
+  }
+  return messages;
+};
 
-    const filteredEntries = useMemo(() => {
-        return entries.filter((e: Entry) => {
-            if (!e.date) return false;
-            if (!/^\d{4}-\d{2}-\d{2}$/.test(e.date)) return false;
-            
-            const eDate = new Date(e.date + "T00:00:00"); 
-            if (isNaN(eDate.getTime())) return false;
+// Turns chat history into multi-turn `contents`. An exchange is one user message plus the replies
+// (and optional system notices) that follow it; `contextRounds` and the token budget count whole exchanges.
+const buildChatContents = (history: ChatMessage[], settings: ChatSettings, now = new Date()): Content[] => {
+  const windowed = filterByContextWindow(history, settings, now)
+      .filter(m => m.role !== 'system' || settings.includeSystemNotices);
+
+  let exchanges: ChatMessage[][] = [];
+  windowed.forEach(m => {
+      if (m.role === 'user') exchanges.push([m]);
+      else if (exchanges.length > 0) exchanges[exchanges.length - 1].push(m);
+      // Replies before the first user message in the window have no question to pair with
+  });
 
-            if (viewMode === 'day') {
-                return isSameDay(eDate, viewDate);
-            } else if (viewMode === 'week') {
-                const { start, end } = getRollingWeekRange(viewDate);
-                return eDate >= start && eDate <= end;
-            } else {
-                return eDate.getMonth() === viewDate.getMonth() && eDate.getFullYear() === viewDate.getFullYear();
-            }
-        });
-    }, [entries, viewMode, viewDate]);
+  if (settings.contextRounds < 9999) {
+      exchanges = settings.contextRounds > 0 ? exchanges.slice(-settings.contextRounds) : [];
+  }
 
-    const handleDeleteEntry = (e: React.MouseEvent, id: string) => {
-        e.stopPropagation();
-        e.preventDefault();
-        if (window.confirm("Delete this entry?")) {
-             setEntries(prev => prev.filter(entry => entry.id !== id));
-        }
-    };
+  const cost = (exchange: ChatMessage[]) => exchange.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+  let total = exchanges.reduce((sum, ex) => sum + cost(ex), 0);
+  while (exchanges.length > 0 && total > settings.contextTokenBudget) {
+      total -= cost(exchanges[0]);
+      exchanges = exchanges.slice(1);
+  }
 
-    // Grouping
-    const groupedCategories: Record<string, string[]> = {};
-    groups.forEach(g => groupedCategories[g.id] = []);
-    Object.entries(categoryMeta).forEach(([key, meta]) => {
-        if (groupedCategories[meta.group]) groupedCategories[meta.group].push(key);
-    });
+  // Gemini only knows user/model turns; notices ride along as user-side context, and
+  // consecutive turns of the same role are merged
+  const contents: Content[] = [];
+  exchanges.flat().forEach(m => {
+      const role = m.role === 'model' ? 'model' : 'user';
+      // Only the newest turn carries its photo; older ones are marked so the text still makes sense
+      const text = m.role === 'system' ? `[System notice] ${m.text}` : m.imageId ? `[Photo] ${m.text}`.trim() : m.text;
+      const last = contents[contents.length - 1];
+      if (last && last.role === role) last.parts!.push({ text });
+      else contents.push({ role, parts: [{ text }] });
+  });
+  return contents;
+};
 
-    const filteredRawLogs = useMemo(() => {
-        if (!rawLogs) return [];
-        return rawLogs.filter((log: RawLog) => {
-             const d = new Date(log.timestamp);
-             if (viewMode === 'day') return isSameDay(d, viewDate);
-             if (viewMode === 'week') {
-                const { start, end } = getRollingWeekRange(viewDate);
-                return d >= start && d <= end;
-             }
-             return d.getMonth() === viewDate.getMonth() && d.getFullYear() === viewDate.getFullYear();
-        }).sort((a: RawLog, b: RawLog) => b.timestamp - a.timestamp);
-    }, [rawLogs, viewDate, viewMode]);
+// --- Model Profiles ---
 
-    const handleSaveLogEdit = (id: string) => {
-        setRawLogs((prev: RawLog[]) => prev.map(log => 
-            log.id === id ? { ...log, text: editingLogText } : log
-        ));
-        setEditingLogId(null);
-    };
+const MODEL_PIPELINES: { id: ModelPipeline; label: string; hint: string }[] = [
+  { id: 'chat', label: 'Chat', hint: 'Companion replies and record lookups' },
+  { id: 'organizer', label: 'Organizer', hint: 'Turns messages into entries' },
+  { id: 'classifier', label: 'Classifier', hint: 'Picks the categories the organizer sees' },
+  { id: 'logger', label: 'Logger', hint: 'Background diary summaries' },
+  { id: 'vision', label: 'Vision', hint: 'Photo messages and voice transcription' },
+  { id: 'report', label: 'Report', hint: 'Period review narratives' }
+];
 
-    const handleDeleteLog = (e: React.MouseEvent, id: string) => {
-        e.stopPropagation(); 
-        if (window.confirm("Are you sure you want to delete this log?")) {
-             setRawLogs((prev: RawLog[]) => prev.filter(log => log.id !== id));
-        }
-    };
+const KNOWN_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
 
-    // --- Helper for Week View Logic ---
-    const toggleWeekId = (id: string) => {
-        setExpandedWeekIds(prev => {
-            const next = new Set(prev);
-            if (next.has(id)) next.delete(id);
-            else next.add(id);
-            return next;
-        });
-    };
+// Only the knobs the user set are sent, so everything else keeps the model's defaults
+const profileConfig = (profile: ModelProfile): GenerateContentConfig => {
+  const config: GenerateContentConfig = {};
+  if (profile.temperature !== null) config.temperature = profile.temperature;
+  if (profile.maxOutputTokens !== null) config.maxOutputTokens = profile.maxOutputTokens;
+  if (profile.thinkingBudget !== null) config.thinkingConfig = { thinkingBudget: profile.thinkingBudget };
+  if (profile.thinkingLevel) config.thinkingConfig = { ...config.thinkingConfig, thinkingLevel: profile.thinkingLevel };
+  return config;
+};
 
-    const toggleAllWeekIds = () => {
-        if (expandedWeekIds.size === filteredEntries.length) {
-            setExpandedWeekIds(new Set()); // Collapse all
-        } else {
-            setExpandedWeekIds(new Set(filteredEntries.map(e => e.id))); // Expand all
-        }
-    };
+const MODEL_TEST_PROMPTS: Record<ModelPipeline, string> = {
+  chat: '今天跑了5公里，有点累但很开心！',
+  organizer: '中午在麦当劳吃了双层吉士汉堡套餐，花了35块',
+  classifier: '中午在麦当劳吃了双层吉士汉堡套餐，花了35块，然后去公园跑了5公里',
+  logger: 'User: 早上好\nAssistant: 早上好！今天有什么计划？\nUser: 准备去图书馆看书，晚上和朋友吃火锅',
+  vision: 'What shop is this receipt from, and what was the total?',
+  report: JSON.stringify({ range: { start: '2025-01-01', end: '2025-01-31' }, totalEntries: 42, activeDays: 20, totalDays: 31, byCategory: [{ label: '运动', count: 12 }] })
+};
 
-    // --- RENDERERS ---
+interface ModelTestResult {
+  latencyMs: number;
+  output: string;
+  error?: string;
+}
 
-    const renderCard = (catKey: string) => {
-        const meta = categoryMeta[catKey] || categoryMeta['other'];
-        const catEntries = filteredEntries.filter((e: Entry) => e.category === catKey);
-        
-        return (
-            <div key={catKey} className={`rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col h-[280px] overflow-hidden group`}>
-                <div className={`px-3 py-2 flex items-center justify-between bg-gray-900/80 border-b border-gray-800/50`}>
-                    <div className="flex items-center gap-2">
-                         <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
-                             <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
-                         </div>
-                         <span className="font-medium text-sm text-gray-300">{meta.label}</span>
-                    </div>
-                    <button onClick={() => {
-                        const now = new Date();
-                        const timeStr = now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-                        const newEntry: Entry = {
-                            id: Math.random().toString(36).substr(2,9),
-                            date: formatDate(viewDate),
-                            category: catKey,
-                            event: 'New Event',
-                            details: {
-                                summary: 'New entry',
-                                time: timeStr,
-                                notes: ''
-                            }
-                        };
-                        setEntries((prev: Entry[]) => [...prev, newEntry]);
-                        setEditingEntry(newEntry);
-                    }} className="text-gray-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100">
-                        <Icons.Plus className="w-4 h-4" />
-                    </button>
-                </div>
-                
-                <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
-                    {catEntries.length === 0 ? (
-                        <div className="h-full flex items-center justify-center text-gray-700 text-xs italic">
-                            No records
-                        </div>
-                    ) : (
-                        catEntries.map((e: Entry) => (
-                            <div key={e.id} className="bg-gray-800/50 rounded p-2 text-xs relative group/item hover:bg-gray-800 transition-colors border border-gray-800/50">
-                                <div className="flex justify-between items-start mb-1">
-                                    <span className="font-bold text-gray-200 line-clamp-1 text-sm">{e.event}</span>
-                                    <div className="flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity absolute top-2 right-2 bg-gray-900/90 rounded px-1 z-20">
-                                        <button 
-                                            onClick={(event) => {
-                                                event.stopPropagation();
-                                                event.preventDefault();
-                                                setEditingEntry(e);
-                                            }} 
-                                            className="text-blue-400 hover:text-blue-300 p-1"
-                                        >
-                                            <Icons.Pencil className="w-3 h-3" />
-                                        </button>
-                                        <button 
-                                            onClick={(event) => handleDeleteEntry(event, e.id)} 
-                                            className="text-red-400 hover:text-red-300 p-1"
-                                        >
-                                            <Icons.Trash2 className="w-3 h-3" />
-                                        </button>
-                                    </div>
-                                </div>
-                                <div className="text-gray-400 space-y-0.5">
-                                    {renderDetails(catKey, e.details)}
-                                    {e.image && (
-                                        <img src={`data:image/jpeg;base64,${e.image}`} className="w-8 h-8 object-cover rounded mt-1 cursor-pointer hover:scale-150 transition-transform" />
-                                    )}
-                                </div>
-                            </div>
-                        ))
-                    )}
-                </div>
-            </div>
-        );
-    };
+// A tiny synthetic receipt, so the vision test needs no upload
+const drawSampleReceipt = (): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 320;
+  canvas.height = 160;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#000000';
+  ctx.font = 'bold 20px sans-serif';
+  ctx.fillText('麦当劳 McDonald\'s', 20, 36);
+  ctx.font = '16px monospace';
+  ctx.fillText('双层吉士套餐   ¥35.00', 20, 76);
+  ctx.fillText('合计 TOTAL     ¥35.00', 20, 108);
+  ctx.fillText('2025-01-17 12:31', 20, 140);
+  return canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+};
 
-    // --- Week View: Calendar Mode (Flexible Rolling Week) ---
-    const renderWeekCalendar = () => {
-        // Use Rolling Week for custom flexible range
-        const { start, end } = getRollingWeekRange(viewDate);
-        
-        // Helper to shift viewDate day by day
-        const shiftDay = (days: number) => {
-            const next = new Date(viewDate);
-            next.setDate(next.getDate() + days);
-            setViewDate(next);
-        };
+const runModelTest = async (pipeline: ModelPipeline, profile: ModelProfile, systemInstruction?: string): Promise<ModelTestResult> => {
+  if (!GOOGLE_API_KEY) throw new Error("No API Key");
+  const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+  const parts: Part[] = [{ text: MODEL_TEST_PROMPTS[pipeline] }];
+  if (pipeline === 'vision') parts.push({ inlineData: { mimeType: 'image/jpeg', data: drawSampleReceipt() } });
+
+  const started = performance.now();
+  const res = await ai.models.generateContent({
+    model: profile.model,
+    contents: [{ role: 'user', parts }],
+    config: { ...profileConfig(profile), systemInstruction }
+  });
+  return { latencyMs: Math.round(performance.now() - started), output: res.text?.trim() || '(empty response)' };
+};
+
+// --- Organizer Response Schema ---
+
+// Maps one FieldSchema to the structured-output schema Gemini should fill for it
+const fieldToResponseSchema = (field: FieldSchema): Schema => {
+  const description = field.unit ? `${field.label} (${field.unit})` : field.label;
+  const options = field.options?.filter(Boolean) || [];
+  switch (field.type) {
+    case 'number':
+      return { type: Type.NUMBER, description, nullable: true };
+    case 'rating':
+      return { type: Type.NUMBER, description: `${description} (1-5)`, minimum: 1, maximum: 5, nullable: true };
+    case 'select':
+      if (field.allowCustomOption && options.length > 0) {
+        return { type: Type.STRING, description: `${description} (e.g. ${options.join('/')})`, nullable: true };
+      }
+      return options.length > 0
+        ? { type: Type.STRING, format: 'enum', enum: options, description, nullable: true }
+        : { type: Type.STRING, description, nullable: true };
+    case 'multiselect':
+      return {
+        type: Type.ARRAY,
+        items: options.length > 0 && !field.allowCustomOption ? { type: Type.STRING, format: 'enum', enum: options } : { type: Type.STRING },
+        description: field.allowCustomOption && options.length > 0 ? `${description} (e.g. ${options.join('/')})` : description,
+        nullable: true
+      };
+    case 'date':
+      return { type: Type.STRING, format: 'date', description: `${description} (YYYY-MM-DD)`, nullable: true };
+    case 'duration':
+      return { type: Type.NUMBER, description: `${description} (minutes)`, nullable: true };
+    case 'time':
+      return { type: Type.STRING, description: `${description} (HH:mm)`, nullable: true };
+    case 'boolean':
+      return { type: Type.BOOLEAN, description, nullable: true };
+    case 'money':
+      return {
+        type: Type.OBJECT,
+        description,
+        nullable: true,
+        properties: {
+          amount: { type: Type.NUMBER },
+          currency: { type: Type.STRING, description: `ISO code, default ${field.unit || 'CNY'}` }
+        },
+        required: ['amount']
+      };
+    default:
+      return { type: Type.STRING, description, nullable: true };
+  }
+};
+
+// Two categories may define the same key differently (e.g. `status`), so collisions are merged:
+// enums are unioned when the shapes match, otherwise the field degrades to a plain string.
+const mergeResponseSchemas = (a: Schema, b: Schema): Schema => {
+  const description = a.description === b.description ? a.description : `${a.description} / ${b.description}`;
+  if (a.type !== b.type || (a.type === Type.ARRAY && a.items?.type !== b.items?.type)) {
+    return { type: Type.STRING, description, nullable: true };
+  }
+  if (a.type === Type.OBJECT) return { ...a, description };
+  if (a.type === Type.ARRAY) {
+    const itemEnum = a.items?.enum && b.items?.enum ? Array.from(new Set([...a.items.enum, ...b.items.enum])) : undefined;
+    return { ...a, description, items: itemEnum ? { ...a.items, enum: itemEnum } : { type: a.items?.type } };
+  }
+  if (a.enum && b.enum) {
+    return { ...a, description, enum: Array.from(new Set([...a.enum, ...b.enum])) };
+  }
+  const format = a.format === b.format && a.format !== 'enum' ? a.format : undefined;
+  return { type: a.type, description, nullable: true, ...(format ? { format } : {}) };
+};
+
+const buildDetailsResponseSchema = (schemas: Record<string, FieldSchema[]>): Schema => {
+  const properties: Record<string, Schema> = {};
+  Object.values(schemas).forEach(fields => {
+    fields.filter(isOrganizerField).forEach(field => {
+      const next = fieldToResponseSchema(field);
+      properties[field.key] = properties[field.key] ? mergeResponseSchemas(properties[field.key], next) : next;
+    });
+  });
+  // Standard fields are always present and required regardless of the user's edits
+  properties.summary = { type: Type.STRING };
+  properties.time = { type: Type.STRING, description: 'HH:mm' };
+  return { type: Type.OBJECT, properties, required: ["summary", "time"] };
+};
+
+// --- Organizer Prompt ---
+
+// With fewer categories than this the organizer sees them all; a classifier call would cost more than it saves
+const PRECLASSIFY_MIN_CATEGORIES = 8;
+
+// Always offered to the organizer, so input that fits nothing else still has a home
+const FALLBACK_CATEGORY = 'other';
+
+// Example details are kept as JSON text while editing; null until it parses to an object
+const parseExampleDetails = (json: string): Record<string, any> | null => {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const describeCategoryForOrganizer = (cat: string, fields: FieldSchema[], meta: Record<string, any> = {}): string => {
+  const lines = [`Table: ${cat} (${meta.label || cat})`];
+  if (meta.description) lines.push(`Description: ${meta.description}`);
+  lines.push(`Fields: ${fields.filter(isOrganizerField).map(f => `- ${f.key} (${f.type}): ${f.label}`).join(', ')}`);
+  if (meta.hints) lines.push(`Hints: ${meta.hints}`);
+  const examples = ((meta.examples || []) as CategoryExample[])
+    .map(ex => ({ input: ex.input.trim(), details: parseExampleDetails(ex.details) }))
+    .filter(ex => ex.input && ex.details);
+  if (examples.length > 0) lines.push('Examples:', ...examples.map(ex => `  "${ex.input}" -> details: ${JSON.stringify(ex.details)}`));
+  return lines.join('\n');
+};
+
+const buildPreclassifyInstructions = (categoryMeta: Record<string, any>): string => `Pick the tables the user's input could be recorded in.
+The input may describe several events; return every table that applies, as a JSON array of table codes.
+
+Tables:
+${Object.entries(categoryMeta).map(([cat, m]) => `- ${cat}: ${m.label}${m.description ? ` - ${m.description}` : ''}`).join('\n')}
+`;
+
+// The classifier's picks plus the fallback; every category when it picked nothing usable
+const selectOrganizerCategories = (picked: string[] | null, categoryMeta: Record<string, any>): string[] => {
+  const valid = (picked || []).filter(cat => cat in categoryMeta);
+  if (valid.length === 0) return Object.keys(categoryMeta);
+  return [...new Set([...valid, ...(FALLBACK_CATEGORY in categoryMeta ? [FALLBACK_CATEGORY] : [])])];
+};
+
+// Self-assessment the organizer returns next to each entry (see ORGANIZER_CONFIDENCE_INSTRUCTIONS)
+const ASSESSMENT_RESPONSE_PROPERTIES: Record<string, Schema> = {
+  confidence: { type: Type.NUMBER, description: "0-1" },
+  missing_fields: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keys of required fields the input doesn't tell" },
+  question: { type: Type.STRING, description: "Follow-up question for the user, only when unsure" }
+};
+
+// --- Field Types ---
+
+const NUMERIC_FIELD_TYPES: FieldType[] = ['number', 'rating', 'duration', 'money', 'computed'];
+
+const isNumericField = (field: FieldSchema) => NUMERIC_FIELD_TYPES.includes(field.type);
+
+// References need an entry id and computed fields are derived, so neither is left to the organizer
+const isOrganizerField = (field: FieldSchema) => field.type !== 'reference' && field.type !== 'computed';
+
+const isMoneyValue = (v: any): v is MoneyValue => !!v && typeof v === 'object' && !Array.isArray(v) && 'amount' in v;
+
+// "30分钟", "1个半小时", "1.5h", "7h30m", "45 min", "7:30", "23:00-07:00" -> minutes; null if unparseable
+const parseDurationMinutes = (value: any): number | null => {
+  if (typeof value === 'number') return value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase().replace(/：/g, ':');
+  if (!text) return null;
+
+  const range = text.match(/(\d{1,2}):(\d{2})\s*[-~到至]\s*(\d{1,2}):(\d{2})/);
+  if (range) {
+    const minutes = (Number(range[3]) * 60 + Number(range[4]) - Number(range[1]) * 60 - Number(range[2]) + 1440) % 1440;
+    return minutes || null;
+  }
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) || null;
+
+  let total = 0;
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(个半小时|个小时|小时半|小时|hours|hour|hrs|hr|h)/);
+  if (hours) total += parseFloat(hours[1]) * 60 + (hours[2].includes('半') ? 30 : 0);
+  else if (text.includes('半小时')) total += 30;
+  const minutes = text.match(/(\d+(?:\.\d+)?)\s*(分钟|分|minutes|minute|mins|min|m)(?![a-z])/);
+  if (minutes) total += parseFloat(minutes[1]);
+  if (total === 0 && /^\d+(\.\d+)?$/.test(text)) total = parseFloat(text); // Bare numbers are minutes
+  return total > 0 ? Math.round(total) : null;
+};
+
+const formatDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return h && m ? `${h}小时${m}分钟` : h ? `${h}小时` : `${m}分钟`;
+};
+
+const parseBoolean = (value: any): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['true', 'yes', 'y', '1', '是', '有', '对', '✓'].includes(text)) return true;
+  if (['false', 'no', 'n', '0', '否', '无', '没有', '不', '✗'].includes(text)) return false;
+  return null;
+};
+
+// Symbols checked in order, so "HK$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [['HK$', 'HKD'], ['$', 'USD'], ['€', 'EUR'], ['円', 'JPY'], ['¥', 'CNY'], ['元', 'CNY'], ['块', 'CNY']];
+
+// 35, "35元", "$12.5", "12 USD" or { amount, currency } -> MoneyValue; null if there is no amount
+const parseMoney = (value: any, defaultCurrency: string): MoneyValue | null => {
+  const amount = parseNumber(value);
+  if (isNaN(amount)) return null;
+  if (isMoneyValue(value)) return { amount, currency: String(value.currency || defaultCurrency).toUpperCase() };
+  const text = String(value);
+  const code = text.match(/\b[A-Z]{3}\b/)?.[0];
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => text.includes(s));
+  return { amount, currency: code || (symbol ? symbol[1] : defaultCurrency) };
+};
+
+// Evaluates + - * / and parentheses over numbers and field keys. Null when the formula is malformed,
+// divides by zero, or uses a field without a numeric value.
+const evaluateFormula = (formula: string, valueOf: (key: string) => number | null): number | null => {
+  const tokens = formula.match(/\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|[-+*/()]/g) || [];
+  if (tokens.join('') !== formula.replace(/\s+/g, '')) return null;
+  let pos = 0;
+
+  const factor = (): number | null => {
+    const token = tokens[pos++];
+    if (token === undefined) return null;
+    if (token === '-') {
+      const v = factor();
+      return v === null ? null : -v;
+    }
+    if (token === '(') {
+      const v = expression();
+      return tokens[pos++] === ')' ? v : null;
+    }
+    if (/^\d/.test(token)) return parseFloat(token);
+    if (/^[A-Za-z_]/.test(token)) return valueOf(token);
+    return null;
+  };
+  const term = (): number | null => {
+    let v = factor();
+    while (v !== null && (tokens[pos] === '*' || tokens[pos] === '/')) {
+      const op = tokens[pos++];
+      const rhs = factor();
+      if (rhs === null || (op === '/' && rhs === 0)) return null;
+      v = op === '*' ? v * rhs : v / rhs;
+    }
+    return v;
+  };
+  const expression = (): number | null => {
+    let v = term();
+    while (v !== null && (tokens[pos] === '+' || tokens[pos] === '-')) {
+      const op = tokens[pos++];
+      const rhs = term();
+      if (rhs === null) return null;
+      v = op === '+' ? v + rhs : v - rhs;
+    }
+    return v;
+  };
+
+  const result = expression();
+  return result !== null && pos === tokens.length && isFinite(result) ? Math.round(result * 100) / 100 : null;
+};
+
+// Fills computed fields in schema order, so a formula may use computed fields listed above it
+const computeFields = (details: Record<string, any>, schema: FieldSchema[]): Record<string, any> => {
+  const next = { ...details };
+  schema.filter(f => f.type === 'computed').forEach(f => {
+    const value = f.formula ? evaluateFormula(f.formula, key => {
+      const v = parseNumber(next[key]);
+      return isNaN(v) ? null : v;
+    }) : null;
+    if (value === null) delete next[f.key];
+    else next[f.key] = value;
+  });
+  return next;
+};
+
+// Converts a non-empty raw value to the field's stored form. On failure `issue` explains why;
+// `value` is then undefined for numeric-like types and the raw value otherwise.
+const coerceFieldValue = (field: FieldSchema, value: any): { value: any; issue?: string } => {
+  if (field.type === 'time' || field.key === 'time') {
+    const time = normalizeTime(value);
+    return time ? { value: time } : { value, issue: `${field.label}: "${value}" is not a valid time (HH:mm)` };
+  }
+  switch (field.type) {
+    case 'number':
+    case 'rating': {
+      const num = parseNumber(value);
+      if (isNaN(num)) return { value: undefined, issue: `${field.label}: "${value}" is not a number` };
+      return { value: field.type === 'rating' ? Math.min(5, Math.max(1, Math.round(num))) : num };
+    }
+    case 'select': {
+      if (!field.options?.length) return { value };
+      const snapped = snapOption(value, field.options) || (field.allowCustomOption ? String(value).trim() : findFallbackOption(field.options));
+      return snapped ? { value: snapped } : { value, issue: `${field.label}: "${value}" is not one of ${field.options.join('/')}` };
+    }
+    case 'multiselect': {
+      const list: any[] = Array.isArray(value) ? value : String(value).split(/[,，、]/);
+      if (!field.options?.length) return { value: list.map(v => String(v).trim()).filter(Boolean) };
+      const fallback = field.allowCustomOption ? null : findFallbackOption(field.options);
+      const snapped = Array.from(new Set(list.map(v => snapOption(v, field.options!) || (field.allowCustomOption ? String(v).trim() : fallback)).filter((v): v is string => !!v)));
+      return snapped.length > 0 ? { value: snapped } : { value: snapped, issue: `${field.label}: none of "${list.join(', ')}" match the options` };
+    }
+    case 'date': {
+      const d = normalizeDate(value);
+      return d ? { value: d } : { value, issue: `${field.label}: "${value}" is not a valid date` };
+    }
+    case 'duration': {
+      const minutes = parseDurationMinutes(value);
+      return minutes !== null ? { value: minutes } : { value: undefined, issue: `${field.label}: "${value}" is not a duration` };
+    }
+    case 'boolean': {
+      const flag = parseBoolean(value);
+      return flag !== null ? { value: flag } : { value: undefined, issue: `${field.label}: "${value}" is not yes/no` };
+    }
+    case 'money': {
+      const money = parseMoney(value, field.unit || 'CNY');
+      return money ? { value: money } : { value: undefined, issue: `${field.label}: "${formatDetailValue(value)}" is not an amount` };
+    }
+    case 'reference':
+      return { value: String(value) };
+    default:
+      return { value };
+  }
+};
+
+// Edits made by hand are coerced where possible; values that don't parse are kept as typed
+const normalizeDetails = (details: Record<string, any>, schema: FieldSchema[]): Record<string, any> => {
+  const next = { ...details };
+  schema.forEach(field => {
+    if (field.type === 'computed' || isEmptyValue(next[field.key])) return;
+    const coerced = coerceFieldValue(field, next[field.key]);
+    if (!coerced.issue) next[field.key] = coerced.value;
+  });
+  return computeFields(next, schema);
+};
+
+// Dry run for a schema edit: each entry of `category` whose stored details the edited schema would change,
+// with the keys that change. A computed field that can't be evaluated (no formula yet, an unfinished one,
+// missing inputs) keeps what the entry stored rather than losing it.
+export const planFieldConversion = (entries: Entry[], category: string, schema: FieldSchema[]) =>
+  entries
+    .filter(e => e.category === category)
+    .map(before => {
+      const details = normalizeDetails(before.details, schema);
+      schema.forEach(f => {
+        if (f.type === 'computed' && details[f.key] === undefined && !isEmptyValue(before.details[f.key])) details[f.key] = before.details[f.key];
+      });
+      const changed = Object.keys({ ...before.details, ...details }).filter(k => JSON.stringify(before.details[k]) !== JSON.stringify(details[k]));
+      return { before, after: { ...before, details }, changed };
+    })
+    .filter(p => p.changed.length > 0);
+
+const formatFieldValue = (field: FieldSchema, value: any, entries?: Entry[]): string => {
+  if (field.type === 'duration') {
+    const minutes = parseDurationMinutes(value);
+    return minutes === null ? formatDetailValue(value) : formatDuration(minutes);
+  }
+  if (field.type === 'reference' && entries) {
+    const target = entries.find(e => e.id === value);
+    return target ? `${target.date} ${target.event}` : '(deleted entry)';
+  }
+  if (field.type === 'computed' && field.unit) return `${value} ${field.unit}`;
+  return formatDetailValue(value);
+};
+
+// --- Field Rules ---
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Min/max and pattern checks on an already coerced, non-empty value; null when it passes
+const checkFieldRules = (field: FieldSchema, value: any): string | null => {
+  if (isNumericField(field) && (field.min !== undefined || field.max !== undefined)) {
+    const num = parseNumber(value);
+    if (!isNaN(num) && field.min !== undefined && num < field.min) return `${field.label} must be at least ${field.min}`;
+    if (!isNaN(num) && field.max !== undefined && num > field.max) return `${field.label} must be at most ${field.max}`;
+  }
+  if (field.pattern && isValidPattern(field.pattern) && typeof value === 'string' && !new RegExp(field.pattern).test(value)) {
+    return `${field.label}: "${value}" doesn't match ${field.pattern}`;
+  }
+  return null;
+};
+
+// Per-field problems (missing required values, unparseable values, broken rules), keyed by field
+const validateDetails = (details: Record<string, any>, schema: FieldSchema[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  schema.forEach(field => {
+    if (field.type === 'computed') return;
+    const value = details?.[field.key];
+    if (isEmptyValue(value) || (typeof value === 'number' && isNaN(value))) {
+      // Notes fall back to the source text, and entries made by hand have none
+      if (field.required && field.key !== 'notes') errors[field.key] = `${field.label} is required`;
+      return;
+    }
+    const coerced = coerceFieldValue(field, value);
+    const issue = coerced.issue || (isEmptyValue(coerced.value) ? null : checkFieldRules(field, coerced.value));
+    if (issue) errors[field.key] = issue;
+  });
+  return errors;
+};
+
+const resolveFieldDefault = (field: FieldSchema, now = new Date()): any => {
+  const fallback = field.defaultValue?.trim();
+  if (!fallback) return undefined;
+  if (fallback === 'today') return formatDate(now);
+  if (fallback === 'now') return field.type === 'date' ? formatDate(now) : now.toTimeString().slice(0, 5);
+  const coerced = coerceFieldValue(field, fallback);
+  return coerced.issue ? undefined : coerced.value;
+};
+
+const applyFieldDefaults = (details: Record<string, any>, schema: FieldSchema[], now = new Date()): Record<string, any> => {
+  const next = { ...details };
+  schema.forEach(field => {
+    if (!isEmptyValue(next[field.key])) return;
+    const fallback = resolveFieldDefault(field, now);
+    if (fallback !== undefined) next[field.key] = fallback;
+  });
+  return next;
+};
+
+// The standard fields' safe fallbacks, used when neither the input nor a configured default has a value
+const standardFieldFallback = (key: string, event: string, sourceText: string, now = new Date()): any => {
+  if (key === 'summary') return event;
+  if (key === 'time') return now.toTimeString().slice(0, 5);
+  if (key === 'notes') return sourceText;
+  return undefined;
+};
+
+// Entries edited by hand or imported get the same fallbacks as organizer output before they are validated
+export const checkEntryFields = (entry: Entry, schema: FieldSchema[], now = new Date()) => {
+  const details = applyFieldDefaults(entry.details || {}, schema, now);
+  schema.forEach(field => {
+    if (!isEmptyValue(details[field.key])) return;
+    const fallback = standardFieldFallback(field.key, entry.event, '', now);
+    if (!isEmptyValue(fallback)) details[field.key] = fallback;
+  });
+  const normalized = normalizeDetails(details, schema);
+  return { details: normalized, errors: validateDetails(normalized, schema) };
+};
+
+// --- Organizer Output Validation ---
+
+const isEmptyValue = (v: any) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+
+const parseNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isMoneyValue(value)) return parseNumber(value.amount);
+  if (typeof value !== 'string') return NaN;
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : NaN;
+};
+
+// Accepts "9:5", "21：30", "下午3点半", "3pm" etc. and returns "HH:mm", or null if unparseable
+const normalizeTime = (value: any): string | null => {
+  const str = String(value ?? '').trim();
+  if (!str) return null;
+  let h: number;
+  let m = 0;
+  const colon = str.match(/(\d{1,2})\s*[:：]\s*(\d{1,2})/);
+  const chinese = str.match(/(\d{1,2})\s*[点时](?:\s*(\d{1,2})\s*分?)?/);
+  const bare = str.match(/^(\d{1,2})\s*(am|pm)?$/i);
+  if (colon) {
+    h = parseInt(colon[1]);
+    m = parseInt(colon[2]);
+  } else if (chinese) {
+    h = parseInt(chinese[1]);
+    m = chinese[2] ? parseInt(chinese[2]) : (/半/.test(str) ? 30 : 0);
+  } else if (bare) {
+    h = parseInt(bare[1]);
+  } else {
+    return null;
+  }
+  if (/(下午|晚上|傍晚|pm)/i.test(str) && h < 12) h += 12;
+  if (/(凌晨|am)/i.test(str) && h === 12) h = 0;
+  if (h > 23 || m > 59) return null;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+const normalizeDate = (value: any): string | null => {
+  const str = String(value ?? '').trim();
+  if (!str) return null;
+  const ymd = str.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?$/);
+  const d = ymd ? new Date(+ymd[1], +ymd[2] - 1, +ymd[3]) : new Date(str);
+  if (isNaN(d.getTime())) return null;
+  if (ymd && (d.getMonth() !== +ymd[2] - 1 || d.getDate() !== +ymd[3])) return null; // e.g. 02-30
+  return formatDate(d);
+};
+
+// Exact match first, then case-insensitive, then substring either way
+const snapOption = (value: any, options: string[]): string | null => {
+  const str = String(value ?? '').trim();
+  if (!str) return null;
+  const lower = str.toLowerCase();
+  return options.find(o => o === str)
+    || options.find(o => o.toLowerCase() === lower)
+    || options.find(o => str.includes(o) || o.includes(str))
+    || null;
+};
+
+const findFallbackOption = (options: string[]) => options.find(o => o === '其他' || o.toLowerCase() === 'other') || null;
+
+// Coerces raw organizer output (or an edited draft) against the category's FieldSchema.
+// Anything that can't be fixed automatically is reported in `issues` so the user can review it.
+const validateOrganizedEntry = (
+  raw: any,
+  schemas: Record<string, FieldSchema[]>,
+  categoryMeta: Record<string, any>,
+  fallbackDate: string,
+  sourceText = ''
+): EntryValidation => {
+  const issues: string[] = [];
+  const category = raw?.category && categoryMeta[raw.category] ? raw.category : 'other';
+
+  let date = normalizeDate(raw?.date);
+  if (!date) {
+    if (!isEmptyValue(raw?.date)) issues.push(`Invalid date "${raw.date}"`);
+    date = fallbackDate;
+  }
+
+  const details: Record<string, any> = {};
+  Object.entries(raw?.details || {}).forEach(([k, v]) => {
+    if (!isEmptyValue(v)) details[k] = v;
+  });
+
+  (schemas[category] || []).forEach(field => {
+    if (field.type === 'computed') return;
+    let value = details[field.key];
+    if (!isEmptyValue(value)) {
+      const coerced = coerceFieldValue(field, value);
+      value = coerced.value;
+      const issue = coerced.issue || (isEmptyValue(value) ? null : checkFieldRules(field, value));
+      if (issue) issues.push(issue);
+    }
+
+    if (isEmptyValue(value)) {
+      // Configured defaults first, then the standard fields' safe fallbacks; other required fields need the user
+      const fallback = resolveFieldDefault(field) ?? standardFieldFallback(field.key, raw?.event || '', sourceText);
+      if (fallback !== undefined) value = fallback;
+      else if (field.required) issues.push(`${field.label} is required`);
+    }
+
+    if (isEmptyValue(value)) delete details[field.key];
+    else details[field.key] = value;
+  });
+
+  const event = String(raw?.event || details.summary || categoryMeta[category]?.label || '').trim();
+  return {
+    entry: {
+      ...raw,
+      id: raw?.id || Math.random().toString(36).substr(2, 9),
+      date,
+      category,
+      event,
+      details: computeFields(details, schemas[category] || [])
+    },
+    issues
+  };
+};
+
+// Pulls the organizer's self-assessment off a raw entry so it doesn't end up on the saved Entry
+const splitOrganizerAssessment = (raw: any) => {
+  const { confidence, missing_fields, question, answered, ...rest } = raw || {};
+  return {
+    raw: rest,
+    confidence: typeof confidence === 'number' ? Math.min(1, Math.max(0, confidence)) : undefined,
+    missing: Array.isArray(missing_fields) ? missing_fields.filter((k: any) => typeof k === 'string') as string[] : [],
+    question: typeof question === 'string' && question.trim() ? question.trim() : undefined
+  };
+};
+
+// validateOrganizedEntry plus the organizer's confidence and the fields it said were missing and are still empty
+const assessOrganizedEntry = (
+  raw: any,
+  schemas: Record<string, FieldSchema[]>,
+  categoryMeta: Record<string, any>,
+  fallbackDate: string,
+  sourceText = ''
+): EntryValidation => {
+  const { raw: entryRaw, confidence, missing, question } = splitOrganizerAssessment(raw);
+  const result = validateOrganizedEntry(entryRaw, schemas, categoryMeta, fallbackDate, sourceText);
+  const schema = schemas[result.entry.category] || [];
+  const stillMissing = missing.filter(k => schema.some(f => f.key === k) && isEmptyValue(result.entry.details[k]));
+  return { ...result, confidence, missing: stillMissing.length > 0 ? stillMissing : undefined, question };
+};
+
+// Drafts wait in the review queue: invalid, unsure, or missing something the organizer asked about
+const isDraftEntry = (result: EntryValidation) =>
+  result.issues.length > 0 || (result.confidence ?? 1) < DRAFT_CONFIDENCE_THRESHOLD || (result.missing?.length ?? 0) > 0;
+
+// The follow-up question still waiting for an answer: the latest chat turn, if it asked about a draft that is still pending
+const findPendingDraftQuestion = (messages: ChatMessage[]) => {
+  const last = [...messages].reverse().find(m => m.role !== 'system');
+  if (!last?.draftEntryId) return null;
+  const msgIndex = messages.findIndex(m => m.reviewEntries?.some(r => r.entry.id === last.draftEntryId));
+  if (msgIndex === -1) return null;
+  const item = messages[msgIndex].reviewEntries!.find(r => r.entry.id === last.draftEntryId)!;
+  return { msgIndex, item, question: last.text };
+};
+
+// --- Finance ---
+
+const FINANCE_CATEGORY = 'finance_tracking';
+
+// Expenses are negative and income positive, whichever sign the entry was saved with; transfers keep theirs
+const signedAmount = (details: Record<string, any>) => {
+  const amount = parseNumber(details?.amount);
+  if (isNaN(amount)) return 0;
+  if (details.transaction_type === '支出') return -Math.abs(amount);
+  if (details.transaction_type === '收入') return Math.abs(amount);
+  return amount;
+};
+
+const isTransfer = (details: Record<string, any>) => details?.transaction_type === '转账';
+
+// Converts 1 `currency` into the base currency as of `date`, using the latest rate dated on or before it
+// (or the earliest later one if there is none). Rates work in both directions; null if no pair exists.
+const findExchangeRate = (currency: string, date: string, settings: CurrencySettings): number | null => {
+  const base = settings.baseCurrency;
+  if (!currency || currency === base) return 1;
+  const candidates = settings.exchangeRates
+    .filter(r => r.rate > 0 && ((r.from === currency && r.to === base) || (r.from === base && r.to === currency)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+  const valid = [...candidates].reverse().find(r => r.date <= date) || candidates[0];
+  return valid.from === currency ? valid.rate : 1 / valid.rate;
+};
+
+// Signed amount in the base currency; entries without a currency are taken to be in it already
+const convertedAmount = (entry: Entry, settings: CurrencySettings): number | null => {
+  const rate = findExchangeRate(entry.details?.currency, entry.date, settings);
+  return rate === null ? null : Math.round(signedAmount(entry.details) * rate * 100) / 100;
+};
+
+const financeTagsOf = (details: Record<string, any>): string[] => {
+  const tags = ([] as any[]).concat(details?.tags ?? []).map(String).filter(Boolean);
+  return tags.length > 0 ? tags : ['其他'];
+};
+
+interface FinanceSummary {
+  income: number;
+  expense: number; // Total spending as a positive number
+  count: number;
+  unconverted: number; // Entries left out because no exchange rate covers their currency
+  byTag: Record<string, number>; // Spending per tag; an entry with several tags counts toward each
+  byMerchant: Record<string, number>;
+  byPaymentMethod: Record<string, number>;
+  dailyExpense: Record<string, number>; // YYYY-MM-DD -> spending
+}
+
+// All amounts are in the base currency. Transfers move money between the user's own accounts,
+// so they count toward neither side.
+const summarizeFinance = (entries: Entry[], currency: CurrencySettings): FinanceSummary => {
+  const summary: FinanceSummary = { income: 0, expense: 0, count: 0, unconverted: 0, byTag: {}, byMerchant: {}, byPaymentMethod: {}, dailyExpense: {} };
+  const add = (bucket: Record<string, number>, key: string, value: number) => { bucket[key] = (bucket[key] || 0) + value; };
+  entries.forEach(e => {
+    if (e.category !== FINANCE_CATEGORY || isTransfer(e.details)) return;
+    const amount = convertedAmount(e, currency);
+    if (amount === null) {
+      summary.unconverted++;
+      return;
+    }
+    summary.count++;
+    if (amount >= 0) {
+      summary.income += amount;
+      return;
+    }
+    const spent = -amount;
+    summary.expense += spent;
+    financeTagsOf(e.details).forEach(tag => add(summary.byTag, tag, spent));
+    add(summary.byMerchant, e.details.merchant || '(unknown)', spent);
+    add(summary.byPaymentMethod, e.details.payment_method || '(unknown)', spent);
+    add(summary.dailyExpense, e.date, spent);
+  });
+  return summary;
+};
+
+interface BudgetStatus {
+  tag: string;
+  budget: number;
+  spent: number;
+  ratio: number;
+}
+
+// Budgets are monthly per tag; `month` is YYYY-MM
+const computeBudgetStatus = (entries: Entry[], budgets: Record<string, number>, month: string, currency: CurrencySettings): BudgetStatus[] => {
+  const { byTag } = summarizeFinance(entries.filter(e => e.date?.startsWith(month)), currency);
+  return Object.entries(budgets)
+    .filter(([, budget]) => budget > 0)
+    .map(([tag, budget]) => ({ tag, budget, spent: byTag[tag] || 0, ratio: (byTag[tag] || 0) / budget }))
+    .sort((a, b) => b.ratio - a.ratio);
+};
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// --- Health Trends ---
+// Charts cover every category in the body group. A category's `trend` meta decides how it is charted:
+// 'daily' plots each day's values (weight, sleep), 'weekly' totals them per week (exercise).
+
+const HEALTH_GROUP = 'body';
+
+interface TrendPoint {
+  date: string; // YYYY-MM-DD; for weekly series, the Monday starting the week
+  value: number;
+}
+
+const weekStartOf = (dateStr: string) => {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() - (d.getDay() + 6) % 7);
+  return formatDate(d);
+};
+
+// One point per day with a value; several entries on the same day are averaged or summed
+const dailySeries = (entries: Entry[], valueOf: (e: Entry) => number | null, combine: 'avg' | 'sum' = 'avg'): TrendPoint[] => {
+  const byDay: Record<string, number[]> = {};
+  entries.forEach(e => {
+    const v = valueOf(e);
+    if (v !== null && !isNaN(v)) (byDay[e.date] ||= []).push(v);
+  });
+  return Object.entries(byDay)
+    .map(([date, values]) => {
+      const sum = values.reduce((a, b) => a + b, 0);
+      return { date, value: Math.round((combine === 'sum' ? sum : sum / values.length) * 100) / 100 };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Totals for every week touching [start, end], including empty weeks
+const weeklyTotals = (entries: Entry[], valueOf: (e: Entry) => number | null, start: string, end: string): TrendPoint[] => {
+  const totals: Record<string, number> = {};
+  for (let d = new Date(weekStartOf(start) + 'T00:00:00'); formatDate(d) <= end; d.setDate(d.getDate() + 7)) {
+    totals[formatDate(d)] = 0;
+  }
+  entries.forEach(e => {
+    const v = valueOf(e);
+    const week = weekStartOf(e.date);
+    if (v !== null && !isNaN(v) && week in totals) totals[week] += v;
+  });
+  return Object.entries(totals).map(([date, value]) => ({ date, value: Math.round(value * 100) / 100 }));
+};
+
+// Trailing mean over the last `window` days (not points), so gaps between measurements don't stretch it
+const movingAverage = (points: TrendPoint[], windowDays = 7): TrendPoint[] => points.map((p, i) => {
+  const from = new Date(p.date + 'T00:00:00');
+  from.setDate(from.getDate() - windowDays + 1);
+  const fromStr = formatDate(from);
+  const inWindow = points.slice(0, i + 1).filter(q => q.date >= fromStr);
+  return { date: p.date, value: Math.round(inWindow.reduce((a, q) => a + q.value, 0) / inWindow.length * 100) / 100 };
+});
+
+const valueDistribution = (entries: Entry[], key: string): Record<string, number> => entries.reduce<Record<string, number>>((acc, e) => {
+  ([] as any[]).concat(e.details?.[key] ?? []).filter(v => !isEmptyValue(v)).forEach(v => {
+    acc[String(v)] = (acc[String(v)] || 0) + 1;
+  });
+  return acc;
+}, {});
+
+// --- Calendar Heat Map ---
+
+// Numeric fields a calendar heat map can color days by (including durations in minutes and finance
+// spending). Values are "category.fieldKey".
+const heatMapOptions = (categoryMeta: Record<string, any>, schemas: Record<string, FieldSchema[]>) =>
+  Object.keys(categoryMeta).flatMap(cat => {
+    const label = categoryMeta[cat].label;
+    const fields = (schemas[cat] || []).filter(isNumericField);
+    return fields.map(f => ({
+      value: `${cat}.${f.key}`,
+      label: cat === FINANCE_CATEGORY && f.key === 'amount' ? `${label} · spending` : `${label} · ${f.type === 'duration' ? `${f.label} (min)` : f.label}`
+    }));
+  });
+
+const heatMapValue = (entry: Entry, option: string, currency: CurrencySettings): number | null => {
+  const [cat, key] = option.split('.');
+  if (entry.category !== cat) return null;
+  if (key === 'duration') return parseDurationMinutes(entry.details?.duration);
+  if (cat === FINANCE_CATEGORY && key === 'amount') {
+    const amount = isTransfer(entry.details) ? null : convertedAmount(entry, currency);
+    return amount !== null && amount < 0 ? -amount : null;
+  }
+  const v = parseNumber(entry.details?.[key]);
+  return isNaN(v) ? null : v;
+};
+
+// --- Menstrual Cycles ---
+
+const CYCLE_MARKER_STYLES: Record<CycleMarker, { label: string; className: string }> = {
+  period: { label: 'Period', className: 'bg-rose-600' },
+  predicted: { label: 'Predicted period', className: 'bg-rose-400/50 border border-dashed border-rose-400' },
+  fertile: { label: 'Fertile window', className: 'bg-teal-500/60' },
+  ovulation: { label: 'Ovulation (est.)', className: 'bg-teal-300' },
+};
+
+// --- Reports ---
+
+interface ReportRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string;
+}
+
+interface RankedItem {
+  name: string;
+  count: number;
+}
+
+interface StreakInfo {
+  length: number;
+  start: string;
+  end: string;
+}
+
+interface ReportStats {
+  range: ReportRange;
+  totalEntries: number;
+  activeDays: number;
+  totalDays: number;
+  byGroup: { label: string; count: number }[];
+  byCategory: { category: string; label: string; count: number; longestStreak: StreakInfo | null }[];
+  topLists: { title: string; items: RankedItem[] }[];
+  longestStreak: StreakInfo | null; // Consecutive days with at least one entry
+  busiestDays: RankedItem[]; // name is the date
+  moodWords: RankedItem[];
+  finance: { income: number; expense: number; currency: string };
+}
+
+// Details fields whose most frequent values are listed in reports
+const REPORT_TOP_FIELDS = [
+  { category: FINANCE_CATEGORY, key: 'merchant', title: 'Top merchants' },
+  { category: 'reading', key: 'book_name', title: 'Books' },
+  { category: 'movie', key: 'title', title: 'Movies' },
+];
+
+const REPORT_LIST_SIZE = 10;
+
+const rankValues = (values: string[], limit = REPORT_LIST_SIZE): RankedItem[] => {
+  const counts: Record<string, number> = {};
+  values.map(v => v.trim()).filter(Boolean).forEach(v => { counts[v] = (counts[v] || 0) + 1; });
+  return Object.entries(counts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+const countBy = (keys: string[]) => keys.reduce<Record<string, number>>((acc, k) => {
+  acc[k] = (acc[k] || 0) + 1;
+  return acc;
+}, {});
+
+const longestStreakOf = (dates: string[]): StreakInfo | null => {
+  const sorted = Array.from(new Set(dates)).sort();
+  let best: StreakInfo | null = null;
+  let current: StreakInfo | null = null;
+  sorted.forEach(date => {
+    current = current && addDays(current.end, 1) === date
+      ? { ...current, length: current.length + 1, end: date }
+      : { length: 1, start: date, end: date };
+    if (!best || current.length > best.length) best = current;
+  });
+  return best;
+};
+
+const buildReportStats = (
+  allEntries: Entry[],
+  range: ReportRange,
+  groups: GroupDef[],
+  categoryMeta: Record<string, any>,
+  currency: CurrencySettings
+): ReportStats => {
+  const entries = allEntries.filter(e => e.date >= range.start && e.date <= range.end);
+  const labelOf = (cat: string) => categoryMeta[cat]?.label || cat;
+  const counts = countByCategory(entries);
+
+  const byCategory = Object.entries(counts)
+    .map(([category, count]) => ({
+      category,
+      label: labelOf(category),
+      count,
+      longestStreak: longestStreakOf(entries.filter(e => e.category === category).map(e => e.date))
+    }))
+    .sort((a, b) => b.count - a.count);
+  const byGroup = groups
+    .map(g => ({ label: g.label, count: byCategory.filter(c => categoryMeta[c.category]?.group === g.id).reduce((a, c) => a + c.count, 0) }))
+    .filter(g => g.count > 0);
+
+  const perDay = countBy(entries.map(e => e.date));
+  const finance = summarizeFinance(entries, currency);
+
+  return {
+    range,
+    totalEntries: entries.length,
+    activeDays: Object.keys(perDay).length,
+    totalDays: daysBetween(range.start, range.end) + 1,
+    byGroup,
+    byCategory,
+    topLists: REPORT_TOP_FIELDS
+      .map(f => ({
+        title: f.title,
+        items: rankValues(entries.filter(e => e.category === f.category).map(e => String(e.details?.[f.key] ?? '')))
+      }))
+      .filter(list => list.items.length > 0),
+    longestStreak: longestStreakOf(entries.map(e => e.date)),
+    busiestDays: Object.entries(perDay)
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, 5),
+    moodWords: rankValues(
+      entries.filter(e => e.category === 'diary').flatMap(e => String(e.details?.mood ?? '').split(/[,，、;；/\s]+/)),
+      20
+    ),
+    finance: { income: finance.income, expense: finance.expense, currency: currency.baseCurrency }
+  };
+};
+
+const formatStreak = (streak: StreakInfo | null) => streak ? `${streak.length} ${streak.length === 1 ? 'day' : 'days'} (${streak.start} – ${streak.end})` : '—';
+
+const formatBusyDay = (day: RankedItem) => `${day.name}: ${day.count} ${day.count === 1 ? 'entry' : 'entries'}`;
+
+const reportToMarkdown = (stats: ReportStats, narrative: string) => {
+  const lines = [
+    `# LifeOS Report: ${stats.range.start} – ${stats.range.end}`,
+    '',
+    ...(narrative ? [narrative, ''] : []),
+    '## Overview',
+    '',
+    `- Entries: ${stats.totalEntries}`,
+    `- Active days: ${stats.activeDays} / ${stats.totalDays}`,
+    `- Longest streak: ${formatStreak(stats.longestStreak)}`,
+    `- Income: ${formatMoney(stats.finance.income)} ${stats.finance.currency}`,
+    `- Spending: ${formatMoney(stats.finance.expense)} ${stats.finance.currency}`,
+    '',
+    '## By group',
+    '',
+    ...stats.byGroup.map(g => `- ${g.label}: ${g.count}`),
+    '',
+    '## By category',
+    '',
+    '| Category | Entries | Longest streak |',
+    '| --- | ---: | --- |',
+    ...stats.byCategory.map(c => `| ${c.label} | ${c.count} | ${formatStreak(c.longestStreak)} |`),
+    '',
+    ...stats.topLists.flatMap(list => [`## ${list.title}`, '', ...list.items.map((item, i) => `${i + 1}. ${item.name} (${item.count})`), '']),
+    '## Busiest days',
+    '',
+    ...stats.busiestDays.map(d => `- ${formatBusyDay(d)}`),
+    '',
+    ...(stats.moodWords.length > 0 ? ['## Mood words', '', stats.moodWords.map(w => `${w.name} ×${w.count}`).join(' · '), ''] : []),
+  ];
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const reportToHtml = (stats: ReportStats, narrative: string) => {
+  const list = (items: string[], ordered = false) => `<${ordered ? 'ol' : 'ul'}>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</${ordered ? 'ol' : 'ul'}>`;
+  const title = `LifeOS Report: ${stats.range.start} – ${stats.range.end}`;
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+h1 { font-size: 1.6rem; } h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; }
+table { border-collapse: collapse; width: 100%; } td, th { padding: 4px 8px; border-bottom: 1px solid #f3f4f6; text-align: left; }
+.narrative { white-space: pre-wrap; background: #f9fafb; padding: 1rem; border-radius: 8px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${narrative ? `<div class="narrative">${escapeHtml(narrative)}</div>` : ''}
+<h2>Overview</h2>
+${list([
+  `Entries: ${stats.totalEntries}`,
+  `Active days: ${stats.activeDays} / ${stats.totalDays}`,
+  `Longest streak: ${formatStreak(stats.longestStreak)}`,
+  `Income: ${formatMoney(stats.finance.income)} ${stats.finance.currency}`,
+  `Spending: ${formatMoney(stats.finance.expense)} ${stats.finance.currency}`,
+])}
+<h2>By group</h2>
+${list(stats.byGroup.map(g => `${g.label}: ${g.count}`))}
+<h2>By category</h2>
+<table><tr><th>Category</th><th>Entries</th><th>Longest streak</th></tr>
+${stats.byCategory.map(c => `<tr><td>${escapeHtml(c.label)}</td><td>${c.count}</td><td>${escapeHtml(formatStreak(c.longestStreak))}</td></tr>`).join('\n')}
+</table>
+${stats.topLists.map(l => `<h2>${escapeHtml(l.title)}</h2>\n${list(l.items.map(i => `${i.name} (${i.count})`), true)}`).join('\n')}
+<h2>Busiest days</h2>
+${list(stats.busiestDays.map(formatBusyDay))}
+${stats.moodWords.length > 0 ? `<h2>Mood words</h2>\n<p>${escapeHtml(stats.moodWords.map(w => `${w.name} ×${w.count}`).join(' · '))}</p>` : ''}
+</body>
+</html>
+`;
+};
+
+// The narrative sees only the computed stats, so it can't quote or leak individual entries
+const generateReportNarrative = async (stats: ReportStats, profile: ModelProfile): Promise<string> => {
+  if (!GOOGLE_API_KEY) throw new Error("No API Key");
+  const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+  const res = await ai.models.generateContent({
+    model: profile.model,
+    contents: JSON.stringify(stats),
+    config: { ...profileConfig(profile), systemInstruction: REPORT_NARRATIVE_INSTRUCTIONS }
+  });
+  return res.text?.trim() || '';
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Data Migrations ---
+// Each step is a pure function of the whole dataset. To change stored data shape (rename a field,
+// split a category, add a setting), append a step; never edit a step that has already shipped.
+
+// The default persona before chat tools existed; profiles that never edited it get the new default
+const LEGACY_CHAT_INSTRUCTIONS_V1 = `You are a friendly, empathetic AI assistant in a personal "LifeOS" app.
+Your user interacts with you to record their life, emotions, work, and health.
+Style: Warm, encouraging, concise, and natural. Use Chinese.
+If the user shares good news, celebrate. If bad news, comfort.
+You are NOT the database. You are the companion. The database recording happens in the background.
+If the user asks about previous records, you can generally refer to "the dashboard".
+`;
+
+// The organizer prompt as first shipped, when durations were free-form strings
+export const LEGACY_ORGANIZER_INSTRUCTIONS_V1 = `You are a strict Data Entry Clerk for a personal database.
+Your Goal: Extract structured events from the user's input.
+Input: A natural language message (which may contain multiple events) and the Current Date.
+
+**CRITICAL RULES:**
+1.  **Atomic Splitting**: If the input contains multiple distinct events (e.g., "Bought lunch for 20 and then watched a movie"), you MUST split them into separate entries.
+2.  **Mandatory Fields (Must fill for EVERY entry)**:
+    *   \`event\`: The "Title". Must be extremely concise, 1-3 words (e.g., "午餐", "跑步", "买书").
+    *   \`details.summary\`: A short description (approx. 10 words) with key context (e.g., "麦当劳双层吉士套餐", "公园慢跑5公里").
+    *   \`details.time\`: The time of occurrence in HH:mm format. Infer from context or use current time if unspecified.
+    *   \`details.duration\`: Duration string if mentioned (e.g., "30分钟", "2小时"). If not mentioned, leave empty.
+3.  **Specific Data Mapping**:
+    *   Identify the \`category\` code.
+    *   Extract structured data matching that category's specific fields.
+4.  **Catch-All Rule**:
+    *   Put the original information received into \`details.notes\`. Do not ignore any user details.
+5.  **Finance Rules**:
+    *   Category: \`finance_tracking\`.
+    *   Amount: Negative for expense, Positive for income.
+    *   Tags: Infer from '餐饮', '交通', '购物', '娱乐', '医疗', '教育', '住房', '旅行', '人情', '工资', '理财', '其他'.
+    *   Currency: Default 'CNY'.
+
+**Output JSON Schema:**
+Return an array of objects.
+{
+  "date": "YYYY-MM-DD",
+  "category": "ENUM_CODE",
+  "event": "Short Title (1-2 words)",
+  "details": {
+     "summary": "10 word description",
+     "time": "HH:mm",
+     "duration": "Duration string (optional)",
+     "notes": "All other unstructured info",
+     // ... Plus category specific keys
+  }
+}
+`;
+
+// The organizer prompt once durations became minutes, before finance rules moved into the finance_tracking hints
+const LEGACY_ORGANIZER_INSTRUCTIONS_V2 = `You are a strict Data Entry Clerk for a personal database.
+Your Goal: Extract structured events from the user's input.
+Input: A natural language message (which may contain multiple events) and the Current Date.
+
+**CRITICAL RULES:**
+1.  **Atomic Splitting**: If the input contains multiple distinct events (e.g., "Bought lunch for 20 and then watched a movie"), you MUST split them into separate entries.
+2.  **Mandatory Fields (Must fill for EVERY entry)**:
+    *   \`event\`: The "Title". Must be extremely concise, 1-3 words (e.g., "午餐", "跑步", "买书").
+    *   \`details.summary\`: A short description (approx. 10 words) with key context (e.g., "麦当劳双层吉士套餐", "公园慢跑5公里").
+    *   \`details.time\`: The time of occurrence in HH:mm format. Infer from context or use current time if unspecified.
+    *   \`details.duration\`: Duration in minutes if mentioned (e.g., 30 for "30分钟", 120 for "2小时"). If not mentioned, leave empty.
+3.  **Specific Data Mapping**:
+    *   Identify the \`category\` code.
+    *   Extract structured data matching that category's specific fields.
+4.  **Catch-All Rule**:
+    *   Put the original information received into \`details.notes\`. Do not ignore any user details.
+5.  **Finance Rules**:
+    *   Category: \`finance_tracking\`.
+    *   Amount: Negative for expense, Positive for income.
+    *   Tags: Infer from '餐饮', '交通', '购物', '娱乐', '医疗', '教育', '住房', '旅行', '人情', '工资', '理财', '其他'.
+    *   Currency: Default 'CNY'.
+
+**Output JSON Schema:**
+Return an array of objects.
+{
+  "date": "YYYY-MM-DD",
+  "category": "ENUM_CODE",
+  "event": "Short Title (1-2 words)",
+  "details": {
+     "summary": "10 word description",
+     "time": "HH:mm",
+     "duration": "Minutes (optional)",
+     "notes": "All other unstructured info",
+     // ... Plus category specific keys
+  }
+}
+`;
+
+interface DataMigration {
+  version: number;
+  description: string;
+  migrate: (data: LifeOSData) => LifeOSData;
+}
+
+// Fills in settings fields that didn't exist when the profile was saved, keeping the ones the user set
+const backfillSettingDefaults = (data: LifeOSData): LifeOSData => ({
+  ...data,
+  aiConfig: { ...DEFAULT_AI_SETTINGS, ...data.aiConfig },
+  chatSettings: { ...DEFAULT_CHAT_SETTINGS, ...data.chatSettings }
+});
+
+// Adds pipelines missing from saved model profiles, keeping the ones the user configured; idempotent
+const backfillModelProfiles = (data: LifeOSData): LifeOSData => ({
+  ...data,
+  aiConfig: { ...data.aiConfig, models: { ...DEFAULT_MODEL_PROFILES, ...data.aiConfig.models } }
+});
+
+// Adds built-in fields missing from saved schemas of built-in categories, keeping the user's edits
+const backfillBuiltInSchemas = (data: LifeOSData): LifeOSData => {
+  const customSchemas = { ...data.customSchemas };
+  Object.entries(INITIAL_SCHEMAS).forEach(([cat, builtIn]) => {
+    const saved = customSchemas[cat];
+    if (!saved) {
+      customSchemas[cat] = builtIn;
+      return;
+    }
+    const missing = builtIn.filter(f => !saved.some(s => s.key === f.key));
+    if (missing.length === 0) return;
+    const notesIdx = saved.findIndex(f => f.key === 'notes');
+    customSchemas[cat] = notesIdx === -1
+      ? [...saved, ...missing]
+      : [...saved.slice(0, notesIdx), ...missing, ...saved.slice(notesIdx)];
+  });
+  return { ...data, customSchemas };
+};
+
+// Text fields that became typed: the standard time/duration fields of every category and sleep's wake time
+const typedFieldUpgrade = (cat: string, field: FieldSchema): FieldType | null => {
+  if (field.type !== 'text') return null;
+  if (field.key === 'time' || (cat === 'sleep' && field.key === 'waketime')) return 'time';
+  if (field.key === 'duration') return 'duration';
+  return null;
+};
+
+// Retypes those fields and converts stored strings; values that don't parse move to notes so nothing is lost
+const typeTimeAndDurationFields = (data: LifeOSData): LifeOSData => {
+  const upgraded: Record<string, FieldSchema[]> = {};
+  const customSchemas = Object.fromEntries(Object.entries(data.customSchemas).map(([cat, fields]) => {
+    const next = fields.map(f => {
+      const type = typedFieldUpgrade(cat, f);
+      return type ? { ...f, type } : f;
+    });
+    upgraded[cat] = next.filter((f, i) => f !== fields[i]);
+    return [cat, next];
+  }));
+
+  const entries = data.entries.map(e => {
+    const fields = upgraded[e.category] || [];
+    const details = { ...e.details };
+    const overflow: string[] = [];
+    let changed = false;
+    fields.forEach(f => {
+      const v = details[f.key];
+      if (isEmptyValue(v)) return;
+      const coerced = coerceFieldValue(f, v);
+      if (!coerced.issue && coerced.value === v) return;
+      changed = true;
+      if (coerced.issue) {
+        overflow.push(`${f.label}: ${formatDetailValue(v)}`);
+        delete details[f.key];
+      } else {
+        details[f.key] = coerced.value;
+      }
+    });
+    if (overflow.length > 0) details.notes = [details.notes, ...overflow].filter(Boolean).join('\n');
+    return changed ? { ...e, details } : e;
+  });
+  return { ...data, customSchemas, entries };
+};
+
+// Swaps an untouched earlier default organizer prompt for the current one and gives finance_tracking
+// its built-in hints and examples unless the user already wrote some
+const moveFinanceRulesToHints = (data: LifeOSData): LifeOSData => {
+  const finance = data.categoryMeta.finance_tracking;
+  const { hints, examples } = INITIAL_CATEGORY_META.finance_tracking;
+  return {
+    ...data,
+    aiConfig: [LEGACY_ORGANIZER_INSTRUCTIONS_V1, LEGACY_ORGANIZER_INSTRUCTIONS_V2].includes(data.aiConfig.organizerInstructions)
+      ? { ...data.aiConfig, organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS }
+      : data.aiConfig,
+    categoryMeta: finance && !finance.hints && !finance.examples
+      ? { ...data.categoryMeta, finance_tracking: { ...finance, hints, examples } }
+      : data.categoryMeta
+  };
+};
+
+// Photos used to be inlined on the message and again on every entry extracted from it. Each distinct
+// photo moves into `images` once; message photos are stored first so their entries share the same record.
+const moveImagesToStore = (data: LifeOSData): LifeOSData => {
+  const images = [...data.images];
+  const idByData = new Map(images.map(i => [i.data, i.id]));
+  const store = (image: string, id: string) => {
+    if (!idByData.has(image)) {
+      idByData.set(image, id);
+      images.push({ id, data: image });
+    }
+    return idByData.get(image)!;
+  };
+  const moveEntry = (e: Entry): Entry => {
+    const { image, ...rest } = e as Entry & { image?: string };
+    return image ? { ...rest, imageId: store(image, `img-entry-${e.id}`) } : e;
+  };
+
+  const messages = data.messages.map(m => {
+    const { image, ...rest } = m as ChatMessage & { image?: string };
+    const moved: ChatMessage = image ? { ...rest, imageId: store(image, `img-${m.timestamp}`) } : m;
+    const reviewEntries = m.reviewEntries?.map(r => {
+      const entry = moveEntry(r.entry);
+      return entry === r.entry ? r : { ...r, entry };
+    });
+    return reviewEntries?.some((r, i) => r !== m.reviewEntries![i]) ? { ...moved, reviewEntries } : moved;
+  });
+  const entries = data.entries.map(moveEntry);
+  // Photos may already be in the store (a legacy backup restored over current data), so the records
+  // decide whether anything moved, not the store size
+  const moved = messages.some((m, i) => m !== data.messages[i]) || entries.some((e, i) => e !== data.entries[i]);
+  return moved ? { ...data, messages, entries, images } : data;
+};
+
+export const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Backfill ids on raw logs',
+    migrate: data => ({ ...data, rawLogs: backfillRawLogIds(data.rawLogs) })
+  },
+  { version: 2, description: 'Backfill new AISettings/ChatSettings fields', migrate: backfillSettingDefaults },
+  { version: 3, description: 'Merge built-in schema fields into saved schemas', migrate: backfillBuiltInSchemas },
+  {
+    version: 4,
+    description: 'Replace the untouched pre-tools chat persona with the current default',
+    migrate: data => data.aiConfig.chatInstructions === LEGACY_CHAT_INSTRUCTIONS_V1
+      ? { ...data, aiConfig: { ...data.aiConfig, chatInstructions: DEFAULT_CHAT_INSTRUCTIONS } }
+      : data
+  },
+  {
+    version: 5,
+    description: 'Chart exercise as weekly totals in health trends',
+    migrate: data => data.categoryMeta.exercise && !data.categoryMeta.exercise.trend
+      ? { ...data, categoryMeta: { ...data.categoryMeta, exercise: { ...data.categoryMeta.exercise, trend: 'weekly' } } }
+      : data
+  },
+  { version: 6, description: 'Backfill per-pipeline model profiles', migrate: backfillModelProfiles },
+  { version: 7, description: 'Type time and duration fields and convert stored strings', migrate: typeTimeAndDurationFields },
+  { version: 8, description: 'Move finance rules from the organizer prompt into finance_tracking hints', migrate: moveFinanceRulesToHints },
+  { version: 9, description: 'Store each photo once and reference it by id', migrate: moveImagesToStore },
+];
+
+export const DATA_VERSION = DATA_MIGRATIONS[DATA_MIGRATIONS.length - 1].version;
+
+export const runMigrations = (data: LifeOSData, fromVersion: number): LifeOSData =>
+  DATA_MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((acc, m) => m.migrate(acc), data);
+
+// --- Category Merge ---
+// Field mapping: source field key -> target field key, or '' to append the value to `notes`
+
+const suggestFieldMapping = (fromFields: FieldSchema[], toFields: FieldSchema[]): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  fromFields.filter(f => !STANDARD_FIELD_KEYS.includes(f.key)).forEach(f => {
+    const match = toFields.find(t => t.key === f.key) || toFields.find(t => t.label === f.label);
+    mapping[f.key] = match && !STANDARD_FIELD_KEYS.includes(match.key) ? match.key : '';
+  });
+  return mapping;
+};
+
+const formatDetailValue = (v: any): string => Array.isArray(v) ? v.join(', ')
+  : isMoneyValue(v) ? `${v.amount} ${v.currency}`
+  : typeof v === 'boolean' ? (v ? '是' : '否')
+  : String(v);
+
+const remapEntryDetails = (details: Record<string, any>, fromFields: FieldSchema[], mapping: Record<string, string>) => {
+  const next: Record<string, any> = {};
+  const overflow: string[] = [];
+  Object.entries(details).forEach(([k, v]) => {
+    // Keys outside the mapping (standard fields, stray extras) keep their name
+    const target = k in mapping ? mapping[k] : k;
+    if (!target || (next[target] !== undefined && target !== k)) {
+      if (v !== undefined && v !== null && v !== '') {
+        const label = fromFields.find(f => f.key === k)?.label || k;
+        overflow.push(`${label}: ${formatDetailValue(v)}`);
+      }
+      return;
+    }
+    next[target] = v;
+  });
+  if (overflow.length > 0) next.notes = [next.notes, ...overflow].filter(Boolean).join('\n');
+  return next;
+};
+
+// Dry run: returns every affected entry as it would look after moving into `to`
+const planCategoryMerge = (entries: Entry[], from: string, to: string, fromFields: FieldSchema[], mapping: Record<string, string>) =>
+  entries
+    .filter(e => e.category === from)
+    .map(before => ({ before, after: { ...before, category: to, details: remapEntryDetails(before.details, fromFields, mapping) } }));
+
+// --- Category Templates ---
+
+const CATEGORY_TEMPLATE_VERSION = 1;
+
+const CATEGORY_PRESETS: CategoryTemplate[] = [
+  {
+    key: 'medication',
+    meta: { label: '用药记录', color: 'bg-red-400', icon: 'Pill', hints: '吃药、服药、打针都记在这里；"两片布洛芬" -> medication=布洛芬, dose=2, dose_unit=片' },
+    fields: createSchema([
+      { key: 'medication', label: '药名', type: 'text', required: true },
+      { key: 'dose', label: '剂量', type: 'number', required: false, min: 0 },
+      { key: 'dose_unit', label: '单位', type: 'select', required: false, options: ['片', '粒', 'mg', 'ml', '滴', '支'], allowCustomOption: true },
+      { key: 'reason', label: '原因', type: 'text', required: false },
+      { key: 'taken', label: '已服用', type: 'boolean', required: true, defaultValue: 'true' },
+    ])
+  },
+  {
+    key: 'habit',
+    meta: { label: '习惯打卡', color: 'bg-green-500', icon: 'ListChecks', hints: '每日习惯的完成情况；"今天没冥想" -> done=false' },
+    fields: createSchema([
+      { key: 'habit', label: '习惯', type: 'select', required: true, options: ['早起', '冥想', '喝水', '背单词', '拉伸'], allowCustomOption: true },
+      { key: 'done', label: '完成', type: 'boolean', required: true, defaultValue: 'true' },
+      { key: 'count', label: '次数/数量', type: 'number', required: false, min: 0 },
+    ])
+  },
+  {
+    key: 'travel',
+    meta: { label: '旅行', color: 'bg-sky-500', icon: 'Plane', hints: '出行、旅途中的行程与花费；交通票价同时也应记一笔记账' },
+    fields: createSchema([
+      { key: 'destination', label: '目的地', type: 'text', required: true },
+      { key: 'transport', label: '交通方式', type: 'select', required: false, options: ['飞机', '高铁', '火车', '自驾', '大巴', '轮船'], allowCustomOption: true },
+      { key: 'cost', label: '花费', type: 'money', required: false, unit: 'CNY', min: 0 },
+      { key: 'companions', label: '同行', type: 'text', required: false },
+      { key: 'rating', label: '评分', type: 'rating', required: false },
+    ])
+  },
+  {
+    key: 'car_maintenance',
+    meta: { label: '车辆保养', color: 'bg-zinc-500', icon: 'Car', hints: '保养、维修、加油、洗车、年检；里程数以公里记录' },
+    fields: createSchema([
+      { key: 'service', label: '项目', type: 'select', required: true, options: ['保养', '换机油', '轮胎', '维修', '洗车', '加油', '年检'], allowCustomOption: true },
+      { key: 'mileage', label: '里程', type: 'number', required: false, unit: 'km', min: 0 },
+      { key: 'cost', label: '费用', type: 'money', required: false, unit: 'CNY', min: 0 },
+      { key: 'shop', label: '门店', type: 'text', required: false },
+      { key: 'next_due', label: '下次保养', type: 'date', required: false },
+    ])
+  },
+  {
+    key: 'plant_care',
+    meta: { label: '植物养护', color: 'bg-lime-500', icon: 'Sprout', hints: '浇水、施肥、换盆等；一句话提到多盆植物时每盆各一条' },
+    fields: createSchema([
+      { key: 'plant', label: '植物', type: 'text', required: true },
+      { key: 'actions', label: '操作', type: 'multiselect', required: true, options: ['浇水', '施肥', '换盆', '修剪', '除虫', '晒太阳'], allowCustomOption: true },
+      { key: 'water_ml', label: '浇水量', type: 'number', required: false, unit: 'ml', min: 0 },
+      { key: 'health', label: '状态', type: 'rating', required: false },
+    ])
+  },
+  {
+    key: 'job_application',
+    meta: { label: '求职申请', color: 'bg-violet-500', icon: 'Send', hints: '投简历、笔试、面试、收到 offer 或拒信；每次进展记一条' },
+    fields: createSchema([
+      { key: 'company', label: '公司', type: 'text', required: true },
+      { key: 'position', label: '职位', type: 'text', required: true },
+      { key: 'stage', label: '阶段', type: 'select', required: true, options: ['已投递', '笔试', '面试', 'Offer', '被拒', '放弃'], defaultValue: '已投递' },
+      { key: 'salary', label: '薪资', type: 'money', required: false, unit: 'CNY', min: 0 },
+      { key: 'link', label: '链接', type: 'text', required: false, pattern: '^https?://' },
+      { key: 'follow_up', label: '跟进日期', type: 'date', required: false },
+    ])
+  },
+];
+
+// Keys become object keys and appear in prompts, so keep them to snake_case ASCII
+const sanitizeCategoryKey = (key: string) =>
+  key.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'category';
+
+// First free key among `base`, `base_2`, `base_3`, ...
+const uniqueCategoryKey = (base: string, taken: Record<string, unknown>) => {
+  const clean = sanitizeCategoryKey(base);
+  let key = clean;
+  for (let n = 2; key in taken; n++) key = `${clean}_${n}`;
+  return key;
+};
+
+// Puts the standard fields back in their usual places (keeping the template's labels and placeholders)
+const withStandardFields = (fields: FieldSchema[]): FieldSchema[] =>
+  createSchema(fields.filter(f => !STANDARD_FIELD_KEYS.includes(f.key))).map(f => {
+    const own = fields.find(t => t.key === f.key);
+    return own && STANDARD_FIELD_KEYS.includes(f.key) ? { ...f, ...own, type: f.type } : f;
+  });
+
+const createCategoryTemplateFile = (key: string, meta: Record<string, any>, fields: FieldSchema[]): CategoryTemplateFile => {
+  const { group, ...rest } = meta;
+  return { app: 'lifeos-category', version: CATEGORY_TEMPLATE_VERSION, key, meta: rest as CategoryTemplate['meta'], fields };
+};
+
+const parseCategoryTemplate = (json: string): CategoryTemplate => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  if (!parsed || parsed.app !== 'lifeos-category' || typeof parsed.version !== 'number') {
+    throw new Error("File is not a LifeOS category template.");
+  }
+  if (parsed.version > CATEGORY_TEMPLATE_VERSION) throw new Error("Template was made by a newer version of this app.");
+  if (typeof parsed.key !== 'string' || typeof parsed.meta?.label !== 'string' || !Array.isArray(parsed.fields)) {
+    throw new Error("Template is missing its key, label or fields.");
+  }
+  parsed.fields.forEach((f: any, i: number) => {
+    if (typeof f?.key !== 'string' || typeof f.label !== 'string' || !FIELD_TYPES.includes(f.type)) {
+      throw new Error(`Field #${i + 1} is malformed.`);
+    }
+  });
+  const { key, meta, fields } = parsed;
+  return { key, meta, fields };
+};
+
+// Installs into `group` under a free key. References to the template's own key follow the rename;
+// references to categories that don't exist here are dropped.
+const installCategoryTemplate = (template: CategoryTemplate, group: string, categoryMeta: Record<string, any>) => {
+  const key = uniqueCategoryKey(template.key, categoryMeta);
+  const fields = withStandardFields(template.fields).map(f => {
+    if (f.type !== 'reference' || !f.refCategory) return f;
+    if (f.refCategory === template.key) return { ...f, refCategory: key };
+    return f.refCategory in categoryMeta ? f : { ...f, refCategory: undefined };
+  });
+  const meta = { color: 'bg-gray-600', icon: 'Hash', ...template.meta, group };
+  return { key, meta, fields };
+};
+
+// --- Chat Tools ---
+// Function declarations the companion can call; handlers run locally against the in-memory data.
+
+interface ChatToolContext {
+  entries: Entry[];
+  rawLogs: RawLog[];
+  customSchemas: Record<string, FieldSchema[]>;
+  categoryMeta: Record<string, any>;
+  currencySettings: CurrencySettings;
+}
+
+const MAX_TOOL_ROUNDS = 4;
+const TOOL_RESULT_LIMIT = 50;
+
+const CHAT_TOOL_INSTRUCTIONS = `
+Tools: query_entries, aggregate_entries and get_raw_logs read the user's own database. Dates are YYYY-MM-DD.
+Resolve relative ranges ("this month", "last week") against Today before calling. Amounts in finance_tracking are negative for expenses; aggregate_entries reports them in the user's base currency.
+`;
+
+const buildChatToolDeclarations = (categoryMeta: Record<string, any>): FunctionDeclaration[] => {
+  const categories = Object.keys(categoryMeta);
+  const rangeProps: Record<string, Schema> = {
+    start_date: { type: Type.STRING, description: 'Inclusive start date, YYYY-MM-DD' },
+    end_date: { type: Type.STRING, description: 'Inclusive end date, YYYY-MM-DD' }
+  };
+  const filterProps: Record<string, Schema> = {
+    ...rangeProps,
+    category: { type: Type.STRING, format: 'enum', enum: categories, description: 'Category code' },
+    text: { type: Type.STRING, description: 'Case-insensitive text to find in the title or any detail value' },
+    field_filters: {
+      type: Type.ARRAY,
+      description: 'Conditions on details fields, all must match',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, description: 'details key, e.g. tags, amount, transaction_type' },
+          op: { type: Type.STRING, format: 'enum', enum: ['eq', 'contains', 'gt', 'gte', 'lt', 'lte'] },
+          value: { type: Type.STRING }
+        },
+        required: ['field', 'op', 'value']
+      }
+    }
+  };
+  return [
+    {
+      name: 'query_entries',
+      description: `List recorded entries, newest first (max ${TOOL_RESULT_LIMIT}). Categories: ${categories.map(c => `${c}=${categoryMeta[c]?.label}`).join(', ')}`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: { ...filterProps, limit: { type: Type.NUMBER, description: `Max entries to return (default ${TOOL_RESULT_LIMIT})` } }
+      }
+    },
+    {
+      name: 'aggregate_entries',
+      description: 'Sum/count/average a numeric field (e.g. finance_tracking.amount, exercise.calories, weight.value) over matching entries, optionally grouped. Omit category (usually with group_by "category") to cover every category that has the field, or to count entries across all of them',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          ...filterProps,
+          field: { type: Type.STRING, description: 'Numeric details key to aggregate; omit to only count entries' },
+          group_by: { type: Type.STRING, description: '"day", "month", "category" or a details key such as tags or merchant' }
+        }
+      }
+    },
+    {
+      name: 'get_raw_logs',
+      description: `Fetch the user's original chat inputs, newest first (max ${TOOL_RESULT_LIMIT})`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          ...rangeProps,
+          text: { type: Type.STRING, description: 'Case-insensitive text to search for' },
+          limit: { type: Type.NUMBER }
+        }
+      }
+    }
+  ];
+};
+
+const matchesFieldFilter = (details: Record<string, any>, filter: { field: string; op: string; value: string }) => {
+  const v = details?.[filter.field];
+  if (v === undefined || v === null) return false;
+  const target = String(filter.value).toLowerCase();
+  if (filter.op === 'eq') return Array.isArray(v) ? v.some(x => String(x).toLowerCase() === target) : String(v).toLowerCase() === target;
+  if (filter.op === 'contains') return formatDetailValue(v).toLowerCase().includes(target);
+  const a = parseNumber(v);
+  const b = parseNumber(filter.value);
+  if (isNaN(a) || isNaN(b)) return false;
+  return filter.op === 'gt' ? a > b : filter.op === 'gte' ? a >= b : filter.op === 'lt' ? a < b : a <= b;
+};
+
+const filterEntriesForTool = (entries: Entry[], args: Record<string, any>) => {
+  const text = args.text ? String(args.text).toLowerCase() : '';
+  return entries.filter(e => {
+    if (args.category && e.category !== args.category) return false;
+    if (args.start_date && e.date < args.start_date) return false;
+    if (args.end_date && e.date > args.end_date) return false;
+    if (text && !`${e.event} ${Object.values(e.details || {}).map(formatDetailValue).join(' ')}`.toLowerCase().includes(text)) return false;
+    return (args.field_filters || []).every((f: any) => matchesFieldFilter(e.details, f));
+  });
+};
+
+// Entries go back to the model without images or ids
+const compactEntry = (e: Entry) => ({ date: e.date, category: e.category, event: e.event, details: e.details });
+
+export const runChatTool = (name: string, args: Record<string, any>, ctx: ChatToolContext): any => {
+  const limit = Math.min(Number(args.limit) || TOOL_RESULT_LIMIT, TOOL_RESULT_LIMIT);
+
+  if (name === 'query_entries') {
+    const matched = filterEntriesForTool(ctx.entries, args)
+      .sort((a, b) => b.date.localeCompare(a.date) || String(b.details?.time || '').localeCompare(String(a.details?.time || '')));
+    return { total: matched.length, entries: matched.slice(0, limit).map(compactEntry) };
+  }
+
+  if (name === 'aggregate_entries') {
+    let matched = filterEntriesForTool(ctx.entries, args);
+    const field = args.field ? String(args.field) : '';
+    if (field && args.category) {
+      const def = (ctx.customSchemas[args.category] || []).find(f => f.key === field);
+      if (!def || !isNumericField(def)) {
+        const numeric = (ctx.customSchemas[args.category] || []).filter(isNumericField).map(f => f.key);
+        return { error: `"${field}" is not a numeric field of ${args.category}. Numeric fields: ${numeric.join(', ') || 'none'}` };
+      }
+    } else if (field) {
+      // Across categories: only those where the field exists and is numeric
+      const withField = Object.keys(ctx.customSchemas).filter(cat => ctx.customSchemas[cat].some(f => f.key === field && isNumericField(f)));
+      if (withField.length === 0) return { error: `No category has a numeric field "${field}"` };
+      matched = matched.filter(e => withField.includes(e.category));
+    }
+    const isMoneyEntry = (e: Entry) => e.category === FINANCE_CATEGORY && field === 'amount';
+    const isMoney = field === 'amount' && matched.some(isMoneyEntry);
+    const valueOf = (e: Entry) => !field ? NaN
+      : isMoneyEntry(e) ? convertedAmount(e, ctx.currencySettings) ?? NaN
+      : parseNumber(e.details?.[field]);
+    const summarize = (list: Entry[]) => {
+      const values = list.map(valueOf).filter(v => !isNaN(v));
+      const sum = values.reduce((a, b) => a + b, 0);
+      return field && values.length > 0
+        ? { count: list.length, sum: Math.round(sum * 100) / 100, avg: Math.round(sum / values.length * 100) / 100, min: Math.min(...values), max: Math.max(...values) }
+        : { count: list.length };
+    };
+
+    const unit = isMoney ? { currency: ctx.currencySettings.baseCurrency } : {};
+    if (!args.group_by) return { field: field || null, ...unit, ...summarize(matched) };
+    const groups: Record<string, Entry[]> = {};
+    matched.forEach(e => {
+      const keys = args.group_by === 'day' ? [e.date]
+        : args.group_by === 'month' ? [e.date.slice(0, 7)]
+        : args.group_by === 'category' ? [e.category]
+        : ([] as any[]).concat(e.details?.[args.group_by] ?? '(none)');
+      keys.forEach(k => (groups[String(k)] ||= []).push(e));
+    });
+    return {
+      field: field || null,
+      ...unit,
+      ...summarize(matched),
+      groups: Object.entries(groups).map(([key, list]) => ({ key, ...summarize(list) }))
+    };
+  }
+
+  if (name === 'get_raw_logs') {
+    const text = args.text ? String(args.text).toLowerCase() : '';
+    const matched = ctx.rawLogs.filter(log => {
+      const date = formatDate(new Date(log.timestamp));
+      if (args.start_date && date < args.start_date) return false;
+      if (args.end_date && date > args.end_date) return false;
+      return !text || log.text.toLowerCase().includes(text);
+    }).sort((a, b) => b.timestamp - a.timestamp);
+    return {
+      total: matched.length,
+      logs: matched.slice(0, limit).map(log => ({ time: new Date(log.timestamp).toLocaleString(), text: log.text }))
+    };
+  }
+
+  return { error: `Unknown tool ${name}` };
+};
+
+// Tool steps are kept on the message for display only (the model already saw the full result),
+// so long lists and texts are cut down before they reach storage
+const TOOL_STEP_PREVIEW_ITEMS = 5;
+const TOOL_STEP_PREVIEW_CHARS = 200;
+
+export const trimToolResult = (value: any): any => {
+  if (Array.isArray(value)) {
+    const head = value.slice(0, TOOL_STEP_PREVIEW_ITEMS).map(trimToolResult);
+    return value.length > TOOL_STEP_PREVIEW_ITEMS ? [...head, `… ${value.length - TOOL_STEP_PREVIEW_ITEMS} more`] : head;
+  }
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, trimToolResult(v)]));
+  if (typeof value === 'string' && value.length > TOOL_STEP_PREVIEW_CHARS) return `${value.slice(0, TOOL_STEP_PREVIEW_CHARS)}…`;
+  return value;
+};
+
+// --- Search ---
+// Query syntax: free words plus `category:movie`, `tag:餐饮`, `type:log`, `date:2026-03..2026-06`,
+// `rating>=4`, `merchant=KFC` or `mood:开心` (any details key; `:` means contains, `=` means equals).
+
+type SearchResultType = 'entry' | 'log' | 'chat';
+
+interface SearchDoc {
+  type: SearchResultType;
+  date: string; // YYYY-MM-DD
+  text: string; // Lowercased haystack
+  entry?: Entry;
+  log?: RawLog;
+  message?: ChatMessage;
+}
+
+interface SearchQuery {
+  terms: string[];
+  categories: string[];
+  tags: string[];
+  types: SearchResultType[];
+  dateRange: { start: string; end: string } | null;
+  fieldFilters: { field: string; op: string; value: string }[]; // Same shape as the chat tool's field_filters
+}
+
+const SEARCH_RESULT_LIMIT = 50;
+
+const SEARCH_OPERATORS: Record<string, string> = { '>=': 'gte', '<=': 'lte', '>': 'gt', '<': 'lt', '=': 'eq', ':': 'contains' };
+
+// "2026" / "2026-03" / "2026-03-05" -> first or last day it covers
+const expandDateBound = (value: string, edge: 'start' | 'end'): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (/^\d{4}-\d{2}$/.test(value)) {
+    return edge === 'start' ? `${value}-01` : formatDate(new Date(Number(value.slice(0, 4)), Number(value.slice(5)), 0));
+  }
+  if (/^\d{4}$/.test(value)) return edge === 'start' ? `${value}-01-01` : `${value}-12-31`;
+  return null;
+};
+
+const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], categories: [], tags: [], types: [], dateRange: null, fieldFilters: [] };
+  const tokens = input.match(/[^\s"]+"[^"]*"|"[^"]*"|\S+/g) || [];
+  tokens.forEach(raw => {
+    const token = raw.replace(/"/g, '');
+    const m = token.match(/^([a-zA-Z_][\w]*)(>=|<=|>|<|=|:)(.+)$/);
+    if (!m) {
+      query.terms.push(token.toLowerCase());
+      return;
+    }
+    const [, key, op, value] = m;
+    const name = key.toLowerCase();
+    if (op === ':' && (name === 'category' || name === 'cat')) query.categories.push(value.toLowerCase());
+    else if (op === ':' && name === 'tag') query.tags.push(value.toLowerCase());
+    else if (op === ':' && (name === 'type' || name === 'in')) {
+      const type = ({ entry: 'entry', entries: 'entry', log: 'log', logs: 'log', chat: 'chat', message: 'chat' } as Record<string, SearchResultType>)[value.toLowerCase()];
+      if (type) query.types.push(type);
+    } else if (op === ':' && name === 'date') {
+      const [from, to = from] = value.includes('..') ? value.split('..') : [value];
+      query.dateRange = {
+        start: (from && expandDateBound(from, 'start')) || '0000-01-01',
+        end: (to && expandDateBound(to, 'end')) || '9999-12-31'
+      };
+    } else {
+      query.fieldFilters.push({ field: key, op: SEARCH_OPERATORS[op], value });
+    }
+  });
+  return query;
+};
+
+// Haystacks are cached per record object; records are immutable, so an edit only re-indexes that record
+const searchTextCache = new WeakMap<object, string>();
+const cachedSearchText = (record: object, build: () => string) => {
+  let text = searchTextCache.get(record);
+  if (text === undefined) {
+    text = build().toLowerCase();
+    searchTextCache.set(record, text);
+  }
+  return text;
+};
+
+const buildSearchIndex = (entries: Entry[], rawLogs: RawLog[], messages: ChatMessage[]): SearchDoc[] => [
+  ...entries.map(entry => ({
+    type: 'entry' as const,
+    date: entry.date,
+    text: cachedSearchText(entry, () => `${entry.event} ${Object.values(entry.details || {}).map(formatDetailValue).join(' ')}`),
+    entry
+  })),
+  ...rawLogs.map(log => ({ type: 'log' as const, date: formatDate(new Date(log.timestamp)), text: cachedSearchText(log, () => log.text), log })),
+  ...messages.map(message => ({ type: 'chat' as const, date: formatDate(new Date(message.timestamp)), text: cachedSearchText(message, () => message.text), message })),
+];
+
+// Category, tag and field filters only apply to entries, so they rule out logs and chat
+const runSearch = (index: SearchDoc[], query: SearchQuery, categoryMeta: Record<string, any>) => {
+  const results: Record<SearchResultType, SearchDoc[]> = { entry: [], log: [], chat: [] };
+  const totals: Record<SearchResultType, number> = { entry: 0, log: 0, chat: 0 };
+  const entryOnly = query.categories.length > 0 || query.tags.length > 0 || query.fieldFilters.length > 0;
+  if (query.terms.length === 0 && !entryOnly && !query.dateRange && query.types.length === 0) return { results, totals };
+
+  const matchesCategory = (cat: string) => query.categories.every(c =>
+    cat.toLowerCase() === c || String(categoryMeta[cat]?.label || '').toLowerCase() === c
+  );
+  index.forEach(doc => {
+    if (query.types.length > 0 && !query.types.includes(doc.type)) return;
+    if (entryOnly && doc.type !== 'entry') return;
+    if (query.dateRange && (doc.date < query.dateRange.start || doc.date > query.dateRange.end)) return;
+    if (!query.terms.every(t => doc.text.includes(t))) return;
+    if (doc.entry) {
+      if (!matchesCategory(doc.entry.category)) return;
+      if (query.tags.length > 0) {
+        const tags = ([] as any[]).concat(doc.entry.details?.tags ?? []).map(t => String(t).toLowerCase());
+        if (!query.tags.every(t => tags.includes(t))) return;
+      }
+      if (!query.fieldFilters.every(f => matchesFieldFilter(doc.entry!.details, f))) return;
+    }
+    totals[doc.type]++;
+    results[doc.type].push(doc);
+  });
+  (Object.keys(results) as SearchResultType[]).forEach(type => {
+    results[type] = results[type].sort((a, b) => b.date.localeCompare(a.date)).slice(0, SEARCH_RESULT_LIMIT);
+  });
+  return { results, totals };
+};
+
+// Text around the first matched term, for result previews
+const searchSnippet = (text: string, terms: string[], radius = 40) => {
+  const lower = text.toLowerCase();
+  const at = terms.map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, at + radius * 2)}${at + radius * 2 < text.length ? '…' : ''}`;
+};
+
+// --- Backup Bundle ---
+
+const BACKUP_VERSION = 1;
+
+const createBackupBundle = (data: LifeOSData): BackupBundle => ({
+  app: 'lifeos',
+  version: BACKUP_VERSION,
+  dataVersion: DATA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data
+});
+
+const parseBackupBundle = (json: string): BackupBundle => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  if (!parsed || parsed.app !== 'lifeos' || typeof parsed.version !== 'number' || !parsed.data) {
+    throw new Error("File is not a LifeOS backup.");
+  }
+  if (parsed.version > BACKUP_VERSION || (parsed.dataVersion ?? 0) > DATA_VERSION) {
+    throw new Error(`Backup was made by a newer version of this app.`);
+  }
+  const d = parsed.data;
+  for (const key of ['entries', 'messages', 'rawLogs', 'images', 'groups'] as const) {
+    if (d[key] !== undefined && !Array.isArray(d[key])) throw new Error(`Backup field "${key}" is malformed.`);
+  }
+  return parsed as BackupBundle;
+};
+
+const dedupeBy = <T,>(items: T[], keyOf: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = keyOf(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+// Merge keeps current records (and settings) on id collisions and appends everything new;
+// replace swaps in the bundle wholesale, keeping current values only for sections the bundle lacks.
+const applyBackupData = (current: LifeOSData, incoming: Partial<LifeOSData>, mode: ImportMode): LifeOSData => {
+  if (mode === 'replace') {
+    const next = { ...current, ...incoming };
+    return { ...next, messages: ensureUniqueTimestamps(next.messages) };
+  }
+  return {
+    entries: dedupeBy([...current.entries, ...(incoming.entries || [])], e => e.id),
+    messages: dedupeBy([...current.messages, ...(incoming.messages || [])], m => String(m.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp),
+    rawLogs: dedupeBy([...current.rawLogs, ...(incoming.rawLogs || [])], l => l.id),
+    images: dedupeBy([...current.images, ...(incoming.images || [])], i => i.id),
+    aiConfig: current.aiConfig,
+    chatSettings: current.chatSettings,
+    customSchemas: { ...(incoming.customSchemas || {}), ...current.customSchemas },
+    groups: dedupeBy([...current.groups, ...(incoming.groups || [])], g => g.id),
+    categoryMeta: { ...(incoming.categoryMeta || {}), ...current.categoryMeta },
+    loggerWatermark: Math.max(current.loggerWatermark, incoming.loggerWatermark || 0),
+    financeBudgets: { ...(incoming.financeBudgets || {}), ...current.financeBudgets },
+    currencySettings: {
+      ...current.currencySettings,
+      exchangeRates: dedupeBy([...current.currencySettings.exchangeRates, ...(incoming.currencySettings?.exchangeRates || [])], r => r.id)
+    }
+  };
+};
+
+// Imported entries get the same defaults, coercion and field rules as organizer output. Ones that still
+// break a rule are taken out of `data` and returned as `held` so they can go to the review queue.
+const screenImportedEntries = (current: LifeOSData, next: LifeOSData): { data: LifeOSData; held: EntryValidation[] } => {
+  const existing = new Set(current.entries);
+  const held: EntryValidation[] = [];
+  const entries = next.entries.flatMap(e => {
+    if (existing.has(e)) return [e];
+    const { details, errors } = checkEntryFields(e, next.customSchemas[e.category] || []);
+    if (Object.keys(errors).length > 0) {
+      held.push({ entry: { ...e, details }, issues: Object.values(errors) });
+      return [];
+    }
+    return [{ ...e, details }];
+  });
+  return { data: { ...next, entries }, held };
+};
+
+// Brings an older bundle up to DATA_VERSION. Sections the bundle lacks are borrowed from `current`
+// only so the steps see a complete dataset, and are dropped again afterwards.
+const migrateBackupData = (bundle: BackupBundle, current: LifeOSData): Partial<LifeOSData> => {
+  const migrated = runMigrations({ ...current, ...bundle.data }, bundle.dataVersion ?? 0);
+  const result: Partial<LifeOSData> = {};
+  const copy = <K extends keyof LifeOSData>(key: K) => { result[key] = migrated[key]; };
+  (Object.keys(bundle.data) as (keyof LifeOSData)[]).filter(key => key in current).forEach(copy);
+  // Bundles from before the image store carry their photos inline; the migrated records point into `images`
+  if (!bundle.data.images && (bundle.data.entries || bundle.data.messages)) copy('images');
+  return result;
+};
+
+const countByCategory = (entries: Entry[]) => entries.reduce<Record<string, number>>((acc, e) => {
+  acc[e.category] = (acc[e.category] || 0) + 1;
+  return acc;
+}, {});
+
+// --- Images ---
+
+const IMAGE_MAX_DIMENSION = 1280;
+const IMAGE_JPEG_QUALITY = 0.8;
+
+const imageSrc = (image: string) => `data:image/jpeg;base64,${image}`;
+
+const createStoredImage = (data: string): StoredImage => ({ id: `img-${Math.random().toString(36).substr(2, 9)}`, data });
+
+// Photos still shown somewhere: on messages, entries, or entries waiting in the review queue
+const referencedImageIds = (entries: Entry[], messages: ChatMessage[]) => new Set([
+  ...entries.map(e => e.imageId),
+  ...messages.flatMap(m => [m.imageId, ...(m.reviewEntries || []).map(r => r.entry.imageId)])
+].filter((id): id is string => !!id));
+
+// Scales an image down to fit IMAGE_MAX_DIMENSION and re-encodes it as JPEG; resolves to raw base64
+const resizeImageToJpeg = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, IMAGE_MAX_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new Error('Canvas is not supported'));
+    // JPEG has no alpha; transparent PNGs would otherwise turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', IMAGE_JPEG_QUALITY).split(',')[1]);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Not a readable image'));
+  };
+  img.src = url;
+});
+
+const imageFromClipboard = (data: DataTransfer | null): File | null =>
+  Array.from(data?.items || []).find(item => item.kind === 'file' && item.type.startsWith('image/'))?.getAsFile() || null;
+
+// --- Voice Input ---
+
+// Container formats in order of preference; the first one this browser's MediaRecorder supports wins
+const RECORDING_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4'];
+
+const pickRecordingMimeType = () => RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const audioSrc = (clip: AudioClip) => `data:${clip.mimeType};base64,${clip.data}`;
+
+// --- Storage Layer ---
+
+const storage: StorageAdapter = typeof indexedDB !== 'undefined' ? createIndexedDBStorage() : createMemoryStorage();
+
+// Writes only the records that changed since the last persisted snapshot; `inFlightKey` marks a record
+// that is still changing every frame (a streaming reply), which is written once when it settles
+const usePersistedCollection = <K extends CollectionName>(collection: K, records: CollectionRecords[K][], isLoaded: boolean, inFlightKey: string | number | null = null) => {
+  const persisted = useRef<CollectionRecords[K][] | null>(null);
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (persisted.current === null) {
+      // First render after loading: state matches what's on disk
+      persisted.current = records;
+      return;
+    }
+    const keyOf = COLLECTION_KEYS[collection] as (r: CollectionRecords[K]) => string | number;
+    const { upserts, deletes } = diffRecords(persisted.current, records, keyOf, inFlightKey);
+    // The in-flight record keeps its last written version in the snapshot, so it diffs again once it settles
+    const previous = persisted.current;
+    persisted.current = inFlightKey === null ? records : records.map(r => keyOf(r) === inFlightKey ? previous.find(p => keyOf(p) === inFlightKey) : r).filter(Boolean) as CollectionRecords[K][];
+    storage.putMany(collection, upserts).catch(e => console.error(`Failed to save ${collection}`, e));
+    storage.deleteMany(collection, deletes).catch(e => console.error(`Failed to delete ${collection}`, e));
+  }, [records, isLoaded, inFlightKey]);
+};
+
+const usePersistedValue = (key: string, value: unknown, isLoaded: boolean) => {
+  useEffect(() => {
+    if (!isLoaded) return;
+    storage.setValue(key, value).catch(e => console.error(`Failed to save ${key}`, e));
+  }, [value, isLoaded]);
+};
+
+// --- Dashboard View Component ---
+
+type DashboardPanel = 'board' | 'logs' | 'finance' | 'health' | 'report';
+
+interface DashboardViewProps {
+  entries: Entry[];
+  viewDate: Date;
+  viewMode: 'day' | 'week' | 'month';
+  setViewDate: (date: Date) => void;
+  setViewMode: (mode: 'day' | 'week' | 'month') => void;
+  setEditingEntry: (entry: Entry) => void;
+  setEntries: React.Dispatch<React.SetStateAction<Entry[]>>;
+  rawLogs: RawLog[];
+  setRawLogs: React.Dispatch<React.SetStateAction<RawLog[]>>;
+  groups: GroupDef[];
+  categoryMeta: Record<string, any>;
+  customSchemas: Record<string, FieldSchema[]>;
+  financeBudgets: Record<string, number>;
+  setFinanceBudgets: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  currencySettings: CurrencySettings;
+  panel: DashboardPanel;
+  setPanel: (panel: DashboardPanel) => void;
+  openImage: (image: string) => void;
+  imageData: Record<string, string>; // StoredImage data by id
+  reportModel: ModelProfile;
+}
+
+const DashboardView = ({ 
+  entries, 
+  viewDate, 
+  viewMode, 
+  setViewDate, 
+  setViewMode, 
+  setEditingEntry, 
+  setEntries,
+  rawLogs,
+  setRawLogs,
+  groups,
+  categoryMeta,
+  customSchemas,
+  financeBudgets,
+  setFinanceBudgets,
+  currencySettings,
+  panel,
+  setPanel,
+  openImage,
+  imageData,
+  reportModel
+}: DashboardViewProps) => {
+    const imageOf = (id?: string): string | undefined => id ? imageData[id] : undefined;
+    const [healthRange, setHealthRange] = useState(() => {
+        const start = new Date();
+        start.setDate(start.getDate() - 89);
+        return { start: formatDate(start), end: formatDate(new Date()) };
+    });
+    const [editingLogId, setEditingLogId] = useState<string | null>(null);
+    const [editingLogText, setEditingLogText] = useState('');
+    
+    // WEEK VIEW STATE
+    const [weekViewType, setWeekViewType] = useState<'calendar' | 'category'>('calendar');
+    const [weekCategoryFilter, setWeekCategoryFilter] = useState<'all' | string>('all');
+    const [expandedWeekIds, setExpandedWeekIds] = useState<Set<string>>(new Set());
+
+    // MONTH VIEW STATE
+    const [monthViewType, setMonthViewType] = useState<'calendar' | 'category'>('calendar');
+    const [heatMapField, setHeatMapField] = useState(''); // "category.fieldKey", or '' for no heat map
+
+    const filteredEntries = useMemo(() => {
+        return entries.filter((e: Entry) => {
+            if (!e.date) return false;
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(e.date)) return false;
+            
+            const eDate = new Date(e.date + "T00:00:00"); 
+            if (isNaN(eDate.getTime())) return false;
+
+            if (viewMode === 'day') {
+                return isSameDay(eDate, viewDate);
+            } else if (viewMode === 'week') {
+                const { start, end } = getRollingWeekRange(viewDate);
+                return eDate >= start && eDate <= end;
+            } else {
+                return eDate.getMonth() === viewDate.getMonth() && eDate.getFullYear() === viewDate.getFullYear();
+            }
+        });
+    }, [entries, viewMode, viewDate]);
+
+    // --- Finance ---
+    const budgetMonth = formatDate(viewDate).slice(0, 7);
+    const financeSummary = useMemo(() => summarizeFinance(filteredEntries, currencySettings), [filteredEntries, currencySettings]);
+    const budgetStatus = useMemo(
+        () => computeBudgetStatus(entries, financeBudgets, budgetMonth, currencySettings),
+        [entries, financeBudgets, budgetMonth, currencySettings]
+    );
+    const financeTags = useMemo(() => {
+        const tagField = (customSchemas[FINANCE_CATEGORY] || []).find(f => f.key === 'tags');
+        return Array.from(new Set([...(tagField?.options || []), ...Object.keys(financeBudgets)]));
+    }, [customSchemas, financeBudgets]);
+
+    const setBudget = (tag: string, value: string) => {
+        const amount = parseFloat(value);
+        setFinanceBudgets(prev => {
+            const next = { ...prev };
+            if (isNaN(amount) || amount <= 0) delete next[tag];
+            else next[tag] = amount;
+            return next;
+        });
+    };
+
+    // --- Report ---
+    const [reportRange, setReportRange] = useState<ReportRange>(() => ({ start: `${new Date().getFullYear()}-01-01`, end: formatDate(new Date()) }));
+    const [reportNarrative, setReportNarrative] = useState('');
+    const [isWritingNarrative, setIsWritingNarrative] = useState(false);
+    const reportStats = useMemo(
+        () => panel === 'report' ? buildReportStats(entries, reportRange, groups, categoryMeta, currencySettings) : null,
+        [panel, entries, reportRange, groups, categoryMeta, currencySettings]
+    );
+
+    // Picking a start after the end (or vice versa) swaps them rather than producing an empty range
+    const changeReportRange = (range: ReportRange) => {
+        if (!range.start || !range.end) return;
+        setReportRange(range.start <= range.end ? range : { start: range.end, end: range.start });
+        setReportNarrative('');
+    };
+
+    const handleWriteNarrative = async () => {
+        if (!reportStats) return;
+        setIsWritingNarrative(true);
+        try {
+            setReportNarrative(await generateReportNarrative(reportStats, reportModel));
+        } catch (e: any) {
+            alert(`Could not write the narrative: ${e.message}`);
+        } finally {
+            setIsWritingNarrative(false);
+        }
+    };
+
+    // --- Cycle ---
+    const cycleAnalysis = useMemo(() => analyzeCycles(entries, formatDate(new Date())), [entries]);
+    const cycleMarkers = useMemo(() => buildCycleMarkers(cycleAnalysis), [cycleAnalysis]);
+
+    const addCycleEnd = (period: PeriodRecord) => {
+        const date = period.lastSeen > period.start
+            ? period.lastSeen
+            : addDays(period.start, Math.round(cycleAnalysis.avgPeriodLength ?? DEFAULT_PERIOD_LENGTH) - 1);
+        const newEntry: Entry = {
+            id: Math.random().toString(36).substr(2,9),
+            date,
+            category: CYCLE_CATEGORY,
+            event: '生理期结束',
+            details: { summary: '生理期结束', time: new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}), status: '结束', notes: '' }
+        };
+        setEntries(prev => [...prev, newEntry]);
+        setEditingEntry(newEntry);
+    };
+
+    const handleDeleteEntry = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        e.preventDefault();
+        if (window.confirm("Delete this entry?")) {
+             setEntries(prev => prev.filter(entry => entry.id !== id));
+        }
+    };
+
+    // Grouping
+    const groupedCategories: Record<string, string[]> = {};
+    groups.forEach(g => groupedCategories[g.id] = []);
+    Object.entries(categoryMeta).forEach(([key, meta]) => {
+        if (groupedCategories[meta.group]) groupedCategories[meta.group].push(key);
+    });
+
+    const filteredRawLogs = useMemo(() => {
+        if (!rawLogs) return [];
+        return rawLogs.filter((log: RawLog) => {
+             const d = new Date(log.timestamp);
+             if (viewMode === 'day') return isSameDay(d, viewDate);
+             if (viewMode === 'week') {
+                const { start, end } = getRollingWeekRange(viewDate);
+                return d >= start && d <= end;
+             }
+             return d.getMonth() === viewDate.getMonth() && d.getFullYear() === viewDate.getFullYear();
+        }).sort((a: RawLog, b: RawLog) => b.timestamp - a.timestamp);
+    }, [rawLogs, viewDate, viewMode]);
+
+    const handleSaveLogEdit = (id: string) => {
+        setRawLogs((prev: RawLog[]) => prev.map(log => 
+            log.id === id ? { ...log, text: editingLogText } : log
+        ));
+        setEditingLogId(null);
+    };
+
+    const handleDeleteLog = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation(); 
+        if (window.confirm("Are you sure you want to delete this log?")) {
+             setRawLogs((prev: RawLog[]) => prev.filter(log => log.id !== id));
+        }
+    };
+
+    // --- Helper for Week View Logic ---
+    const toggleWeekId = (id: string) => {
+        setExpandedWeekIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleAllWeekIds = () => {
+        if (expandedWeekIds.size === filteredEntries.length) {
+            setExpandedWeekIds(new Set()); // Collapse all
+        } else {
+            setExpandedWeekIds(new Set(filteredEntries.map(e => e.id))); // Expand all
+        }
+    };
+
+    // --- RENDERERS ---
+
+    const renderCard = (catKey: string) => {
+        const meta = categoryMeta[catKey] || categoryMeta['other'];
+        const catEntries = filteredEntries.filter((e: Entry) => e.category === catKey);
+        
+        return (
+            <div key={catKey} className={`rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col h-[280px] overflow-hidden group`}>
+                <div className={`px-3 py-2 flex items-center justify-between bg-gray-900/80 border-b border-gray-800/50`}>
+                    <div className="flex items-center gap-2">
+                         <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
+                             <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                         </div>
+                         <span className="font-medium text-sm text-gray-300">{meta.label}</span>
+                    </div>
+                    <button onClick={() => {
+                        const now = new Date();
+                        const timeStr = now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+                        const newEntry: Entry = {
+                            id: Math.random().toString(36).substr(2,9),
+                            date: formatDate(viewDate),
+                            category: catKey,
+                            event: 'New Event',
+                            details: applyFieldDefaults({
+                                summary: 'New entry',
+                                time: timeStr,
+                                notes: ''
+                            }, customSchemas[catKey] || [])
+                        };
+                        setEntries((prev: Entry[]) => [...prev, newEntry]);
+                        setEditingEntry(newEntry);
+                    }} className="text-gray-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100">
+                        <Icons.Plus className="w-4 h-4" />
+                    </button>
+                </div>
+                
+                <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+                    {catEntries.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-gray-700 text-xs italic">
+                            No records
+                        </div>
+                    ) : (
+                        catEntries.map((e: Entry) => (
+                            <div key={e.id} className="bg-gray-800/50 rounded p-2 text-xs relative group/item hover:bg-gray-800 transition-colors border border-gray-800/50">
+                                <div className="flex justify-between items-start mb-1">
+                                    <span className="font-bold text-gray-200 line-clamp-1 text-sm">{e.event}</span>
+                                    <div className="flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity absolute top-2 right-2 bg-gray-900/90 rounded px-1 z-20">
+                                        <button 
+                                            onClick={(event) => {
+                                                event.stopPropagation();
+                                                event.preventDefault();
+                                                setEditingEntry(e);
+                                            }} 
+                                            className="text-blue-400 hover:text-blue-300 p-1"
+                                        >
+                                            <Icons.Pencil className="w-3 h-3" />
+                                        </button>
+                                        <button 
+                                            onClick={(event) => handleDeleteEntry(event, e.id)} 
+                                            className="text-red-400 hover:text-red-300 p-1"
+                                        >
+                                            <Icons.Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="text-gray-400 space-y-0.5">
+                                    {renderDetails(catKey, e.details, { date: e.date, currency: currencySettings, schema: customSchemas[catKey], entries })}
+                                    {imageOf(e.imageId) && (
+                                        <img src={imageSrc(imageOf(e.imageId)!)} onClick={() => openImage(imageOf(e.imageId)!)} className="w-8 h-8 object-cover rounded mt-1 cursor-zoom-in" />
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    // --- Month View: Calendar Mode ---
+    const renderMonthCalendar = () => {
+        const year = viewDate.getFullYear();
+        const month = viewDate.getMonth();
+        const leadingBlanks = (new Date(year, month, 1).getDay() + 6) % 7;
+        const days = Array.from({ length: new Date(year, month + 1, 0).getDate() }, (_, i) => new Date(year, month, i + 1));
+        const byDay: Record<string, Entry[]> = {};
+        filteredEntries.forEach(e => (byDay[e.date] ||= []).push(e));
+        const netByDay = Object.fromEntries(dailySeries(
+            filteredEntries.filter(e => e.category === FINANCE_CATEGORY && !isTransfer(e.details)),
+            e => convertedAmount(e, currencySettings),
+            'sum'
+        ).map(p => [p.date, p.value]));
+        const heat = heatMapField
+            ? Object.fromEntries(dailySeries(filteredEntries, e => heatMapValue(e, heatMapField, currencySettings), 'sum').map(p => [p.date, p.value]))
+            : {};
+        const heatMax = Math.max(...Object.values(heat), 0);
+
+        return (
+            <div className="space-y-2">
+                <div className="grid grid-cols-7 gap-1 sm:gap-2">
+                    {days.slice(0, 7).map((_, i) => (
+                        <div key={i} className="text-center text-[10px] sm:text-xs uppercase font-bold text-gray-500">
+                            {new Date(2024, 0, 1 + i).toLocaleDateString('en-US', { weekday: 'short' })}
+                        </div>
+                    ))}
+                    {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+                    {days.map(day => {
+                        const dayStr = formatDate(day);
+                        const dayEntries = byDay[dayStr] || [];
+                        const categories = Array.from(new Set(dayEntries.map(e => e.category)));
+                        const isToday = isSameDay(day, new Date());
+                        const heatValue = heat[dayStr];
+                        const net = netByDay[dayStr];
+                        return (
+                            <button
+                                key={dayStr}
+                                onClick={() => {
+                                    setViewDate(day);
+                                    setViewMode('day');
+                                }}
+                                title={heatValue !== undefined ? `${heatValue}` : undefined}
+                                className={`relative min-h-[64px] sm:min-h-[88px] text-left p-1.5 rounded-lg border transition-colors overflow-hidden ${isToday ? 'border-blue-500/60' : 'border-gray-800'} ${heatMapField ? 'bg-gray-900/30' : 'bg-gray-900/50'} hover:border-gray-600`}
+                            >
+                                {heatMapField && heatValue !== undefined && heatMax > 0 && (
+                                    <div className="absolute inset-0 bg-orange-500 pointer-events-none" style={{ opacity: 0.1 + 0.6 * (heatValue / heatMax) }} />
+                                )}
+                                <div className="relative flex justify-between items-start">
+                                    <span className={`text-xs font-mono ${isToday ? 'text-blue-400 font-bold' : 'text-gray-400'}`}>{day.getDate()}</span>
+                                    {dayEntries.length > 0 && <span className="text-[10px] text-gray-500">{dayEntries.length}</span>}
+                                </div>
+                                <div className="relative flex flex-wrap gap-0.5 mt-1">
+                                    {categories.slice(0, 8).map(cat => (
+                                        <span key={cat} className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full ${(categoryMeta[cat] || categoryMeta['other'])?.color || 'bg-gray-500'}`} title={categoryMeta[cat]?.label || cat} />
+                                    ))}
+                                    {categories.length > 8 && <span className="text-[8px] text-gray-500 leading-none">+{categories.length - 8}</span>}
+                                </div>
+                                {net !== undefined && (
+                                    <div className={`relative text-[9px] sm:text-[10px] font-mono mt-1 ${net >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {formatMoney(net)}
+                                    </div>
+                                )}
+                                {heatMapField && heatValue !== undefined && (
+                                    <div className="relative text-[9px] sm:text-[10px] font-mono text-orange-200">{formatMoney(heatValue)}</div>
+                                )}
+                                {cycleMarkers[dayStr] && (
+                                    <div className={`absolute bottom-1 left-1.5 right-1.5 h-0.5 rounded-full ${CYCLE_MARKER_STYLES[cycleMarkers[dayStr]].className}`} title={CYCLE_MARKER_STYLES[cycleMarkers[dayStr]].label} />
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="text-[10px] text-gray-600 px-1">
+                    Net spend in {currencySettings.baseCurrency}.{heatMapField && heatMax > 0 && ` Heat map max: ${formatMoney(heatMax)}.`}
+                </div>
+            </div>
+        );
+    };
+
+    // --- Week View: Calendar Mode (Flexible Rolling Week) ---
+    const renderWeekCalendar = () => {
+        // Use Rolling Week for custom flexible range
+        const { start, end } = getRollingWeekRange(viewDate);
+        
+        // Helper to shift viewDate day by day
+        const shiftDay = (days: number) => {
+            const next = new Date(viewDate);
+            next.setDate(next.getDate() + days);
+            setViewDate(next);
+        };
 
         const days = Array.from({length: 7}, (_, i) => {
             const d = new Date(start);
@@ -599,6 +2957,9 @@ const DashboardView = ({
                                     <div className={`text-sm font-mono ${isToday ? 'text-white' : 'text-gray-300'}`}>
                                         {day.getDate()}
                                     </div>
+                                    {cycleMarkers[dayStr] && (
+                                        <div className={`mx-auto mt-1 h-1 w-6 rounded-full ${CYCLE_MARKER_STYLES[cycleMarkers[dayStr]].className}`} title={CYCLE_MARKER_STYLES[cycleMarkers[dayStr]].label} />
+                                    )}
                                 </button>
 
                                 {/* Events List */}
@@ -717,9 +3078,9 @@ const DashboardView = ({
                                             {isExpanded && (
                                                 <div className="px-4 pb-4 pl-12 bg-gray-900/30 border-t border-gray-800/30 animate-fade-in">
                                                     <div className="pt-2 text-gray-400 text-xs">
-                                                        {renderDetails(entry.category, entry.details)}
-                                                        {entry.image && (
-                                                            <img src={`data:image/jpeg;base64,${entry.image}`} className="w-24 h-24 object-cover rounded mt-2 border border-gray-700" />
+                                                        {renderDetails(entry.category, entry.details, { date: entry.date, currency: currencySettings, schema: customSchemas[entry.category], entries })}
+                                                        {imageOf(entry.imageId) && (
+                                                            <img src={imageSrc(imageOf(entry.imageId)!)} onClick={() => openImage(imageOf(entry.imageId)!)} className="w-24 h-24 object-cover rounded mt-2 border border-gray-700 cursor-zoom-in" />
                                                         )}
                                                     </div>
                                                 </div>
@@ -757,7 +3118,7 @@ const DashboardView = ({
                                              date: formatDate(viewDate),
                                              category: cat,
                                              event: 'New Event',
-                                             details: { summary: 'New entry', time: timeStr, notes: '' }
+                                             details: applyFieldDefaults({ summary: 'New entry', time: timeStr, notes: '' }, customSchemas[cat] || [])
                                          };
                                          setEntries(prev => [...prev, newEntry]);
                                          setEditingEntry(newEntry);
@@ -782,7 +3143,7 @@ const DashboardView = ({
                                  date: formatDate(viewDate),
                                  category: 'other',
                                  event: 'New Event',
-                                 details: { summary: 'Quick add', time: timeStr, notes: '' }
+                                 details: applyFieldDefaults({ summary: 'Quick add', time: timeStr, notes: '' }, customSchemas.other || [])
                              };
                              setEntries(prev => [...prev, newEntry]);
                              setEditingEntry(newEntry);
@@ -793,78 +3154,553 @@ const DashboardView = ({
                         <span>Add Custom Event</span>
                     </button>
                 </div>
-            )
-        }
+            )
+        }
+
+        const sorted = [...filteredEntries].sort((a, b) => (a.details.time || "00:00").localeCompare(b.details.time || "00:00"));
+
+        return (
+            <div className="max-w-3xl mx-auto py-4 space-y-0 relative">
+                 <div className="absolute left-[59px] top-4 bottom-4 w-0.5 bg-gray-800/50 hidden sm:block" />
+
+                 {sorted.map((entry, idx) => {
+                     const meta = categoryMeta[entry.category] || categoryMeta['other'];
+                     return (
+                         <div key={entry.id} className="relative flex flex-col sm:flex-row gap-4 mb-6 group animate-fade-in">
+                             <div className="w-[60px] flex-shrink-0 flex flex-col items-end pt-1 relative">
+                                 <span className="font-mono text-blue-400 font-bold text-sm">{entry.details.time}</span>
+                                 <div className={`absolute top-2 -right-[5px] w-2.5 h-2.5 rounded-full ${meta.color} ring-4 ring-gray-950 hidden sm:block z-10`} />
+                             </div>
+
+                             <div 
+                                className="flex-1 bg-gray-900/60 border border-gray-800 rounded-xl p-3 hover:bg-gray-800/80 transition-colors cursor-pointer relative overflow-hidden"
+                                onClick={() => setEditingEntry(entry)}
+                             >
+                                 <div className="flex items-start justify-between gap-2 mb-2">
+                                     <div className="flex items-center gap-2">
+                                          <div className={`p-1.5 rounded-md ${meta.color} text-white`}>
+                                              <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                                          </div>
+                                          <span className="font-bold text-gray-200 text-sm">{entry.event}</span>
+                                     </div>
+                                     <button 
+                                        onClick={(e) => handleDeleteEntry(e, entry.id)}
+                                        className="text-gray-600 hover:text-red-400 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                                     >
+                                         <Icons.Trash2 className="w-3.5 h-3.5" />
+                                     </button>
+                                 </div>
+                                 
+                                 <div className="text-gray-400 pl-1 border-l-2 border-gray-800 ml-1">
+                                      {renderDetails(entry.category, entry.details, { date: entry.date, currency: currencySettings, schema: customSchemas[entry.category], entries })}
+                                 </div>
+                                 {imageOf(entry.imageId) && (
+                                     <img src={imageSrc(imageOf(entry.imageId)!)} onClick={() => openImage(imageOf(entry.imageId)!)} className="w-16 h-16 object-cover rounded mt-2 border border-gray-700 cursor-zoom-in" />
+                                 )}
+                             </div>
+                         </div>
+                     );
+                 })}
+
+                 <div className="flex justify-center mt-8 pt-8 border-t border-gray-800/50 border-dashed">
+                      <button 
+                        onClick={() => {
+                            const now = new Date();
+                            const timeStr = now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+                            const newEntry = {
+                                id: Math.random().toString(36).substr(2,9),
+                                date: formatDate(viewDate),
+                                category: 'other',
+                                event: 'New Event',
+                                details: applyFieldDefaults({ summary: 'Quick add', time: timeStr, notes: '' }, customSchemas.other || [])
+                            };
+                            setEntries(prev => [...prev, newEntry]);
+                            setEditingEntry(newEntry);
+                        }}
+                        className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-400 hover:text-white transition-all"
+                      >
+                          <Icons.Plus className="w-4 h-4" />
+                          <span className="text-xs">Add Event</span>
+                      </button>
+                 </div>
+            </div>
+        )
+    }
+
+    // Month view: the month's cycle calendar, averages, predictions and records that need fixing
+    const renderCycleSummary = () => {
+        if (cycleAnalysis.periods.length === 0) return null;
+        const year = viewDate.getFullYear();
+        const month = viewDate.getMonth();
+        const leadingBlanks = (new Date(year, month, 1).getDay() + 6) % 7;
+        const days = Array.from({ length: new Date(year, month + 1, 0).getDate() }, (_, i) => formatDate(new Date(year, month, i + 1)));
+        const next = cycleAnalysis.predictions[0];
+        const meta = categoryMeta[CYCLE_CATEGORY] || INITIAL_CATEGORY_META[CYCLE_CATEGORY];
+
+        return (
+            <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 animate-fade-in">
+                <div className="flex items-center gap-2 mb-3">
+                    <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
+                        <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                    </div>
+                    <span className="font-medium text-sm text-gray-300">{meta.label}</span>
+                </div>
+                <div className="flex flex-col md:flex-row gap-6">
+                    <div className="grid grid-cols-7 gap-1 text-[10px] font-mono w-full md:w-64 shrink-0">
+                        {['一', '二', '三', '四', '五', '六', '日'].map(d => <div key={d} className="text-center text-gray-600">{d}</div>)}
+                        {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+                        {days.map(date => {
+                            const marker = cycleMarkers[date];
+                            return (
+                                <div 
+                                    key={date}
+                                    title={marker ? CYCLE_MARKER_STYLES[marker].label : undefined}
+                                    className={`aspect-square rounded flex items-center justify-center ${marker ? `${CYCLE_MARKER_STYLES[marker].className} text-white` : 'bg-gray-800/50 text-gray-500'}`}
+                                >
+                                    {Number(date.slice(8))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex-1 space-y-3 text-xs">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            <div><div className="text-gray-500">Avg cycle</div><div className="font-mono text-gray-200">{cycleAnalysis.avgCycleLength ?? '—'} d</div></div>
+                            <div><div className="text-gray-500">Avg period</div><div className="font-mono text-gray-200">{cycleAnalysis.avgPeriodLength ?? '—'} d</div></div>
+                            <div><div className="text-gray-500">Next period</div><div className="font-mono text-rose-300">{next ? `${next.start.slice(5)} – ${next.end.slice(5)}` : '—'}</div></div>
+                            <div><div className="text-gray-500">Fertile window</div><div className="font-mono text-teal-300">{next ? `${next.fertileStart.slice(5)} – ${next.fertileEnd.slice(5)}` : '—'}</div></div>
+                        </div>
+                        <div className="flex flex-wrap gap-3 text-[10px] text-gray-500">
+                            {(Object.keys(CYCLE_MARKER_STYLES) as CycleMarker[]).map(m => (
+                                <span key={m} className="flex items-center gap-1">
+                                    <span className={`w-2.5 h-2.5 rounded-sm ${CYCLE_MARKER_STYLES[m].className}`} /> {CYCLE_MARKER_STYLES[m].label}
+                                </span>
+                            ))}
+                        </div>
+                        {cycleAnalysis.avgCycleLength === null && (
+                            <p className="text-[10px] text-gray-600">Predictions assume a {DEFAULT_CYCLE_LENGTH}-day cycle until two period starts are recorded.</p>
+                        )}
+                        {(cycleAnalysis.missingEnds.length > 0 || cycleAnalysis.strayEnds.length > 0) && (
+                            <div className="bg-yellow-900/20 border border-yellow-800/50 rounded-lg p-2 space-y-1.5">
+                                {cycleAnalysis.missingEnds.map(p => (
+                                    <div key={p.startEntryId} className="flex items-center justify-between gap-2 text-yellow-300">
+                                        <span className="flex items-center gap-1"><Icons.AlertTriangle className="w-3 h-3" /> Period starting {p.start} has no end marker</span>
+                                        <button onClick={() => addCycleEnd(p)} className="text-[10px] bg-yellow-900/40 px-2 py-0.5 rounded border border-yellow-800/50 hover:bg-yellow-900/60">Add end</button>
+                                    </div>
+                                ))}
+                                {cycleAnalysis.strayEnds.map(e => (
+                                    <div key={e.id} className="flex items-center justify-between gap-2 text-yellow-300">
+                                        <span className="flex items-center gap-1"><Icons.AlertTriangle className="w-3 h-3" /> End marker on {e.date} has no matching start</span>
+                                        <button onClick={() => setEditingEntry(e)} className="text-[10px] bg-yellow-900/40 px-2 py-0.5 rounded border border-yellow-800/50 hover:bg-yellow-900/60">Edit</button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderFinanceView = () => {
+        const periodDays = viewMode === 'day' ? [new Date(viewDate)]
+            : viewMode === 'week' ? Array.from({ length: 7 }, (_, i) => {
+                const d = new Date(getRollingWeekRange(viewDate).start);
+                d.setDate(d.getDate() + i);
+                return d;
+            })
+            : Array.from({ length: new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 0).getDate() },
+                (_, i) => new Date(viewDate.getFullYear(), viewDate.getMonth(), i + 1));
+        const daily = periodDays.map(d => ({ date: formatDate(d), spent: financeSummary.dailyExpense[formatDate(d)] || 0 }));
+        const maxDaily = Math.max(...daily.map(d => d.spent), 1);
+        const overBudget = budgetStatus.filter(b => b.ratio > 1);
+        const net = financeSummary.income - financeSummary.expense;
+
+        const renderBreakdown = (title: string, icon: string, bucket: Record<string, number>) => {
+            const rows = Object.entries(bucket).sort((a, b) => b[1] - a[1]).slice(0, 8);
+            const max = rows[0]?.[1] || 1;
+            return (
+                <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                    <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-3 flex items-center gap-2">
+                        <IconComponent name={icon} className="w-3.5 h-3.5" /> {title}
+                    </h4>
+                    {rows.length === 0 ? (
+                        <div className="text-xs text-gray-700 italic">No spending</div>
+                    ) : (
+                        <div className="space-y-2">
+                            {rows.map(([key, value]) => (
+                                <div key={key} className="text-xs">
+                                    <div className="flex justify-between mb-0.5">
+                                        <span className="text-gray-300 truncate">{key}</span>
+                                        <span className="font-mono text-gray-400">{formatMoney(value)}</span>
+                                    </div>
+                                    <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                        <div className="h-full bg-emerald-500/70 rounded-full" style={{ width: `${(value / max) * 100}%` }} />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            );
+        };
+
+        return (
+            <div className="space-y-4 animate-fade-in">
+                {overBudget.length > 0 && (
+                    <div className="bg-red-900/20 border border-red-800/50 rounded-xl p-3 text-sm text-red-300 flex items-start gap-2">
+                        <Icons.AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>
+                            Over budget in {budgetMonth}: {overBudget.map(b => `${b.tag} (${formatMoney(b.spent)} / ${formatMoney(b.budget)})`).join(', ')}
+                        </span>
+                    </div>
+                )}
+
+                {financeSummary.unconverted > 0 && (
+                    <div className="bg-yellow-900/20 border border-yellow-800/50 rounded-xl p-3 text-sm text-yellow-300 flex items-start gap-2">
+                        <Icons.AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>
+                            {financeSummary.unconverted} transaction(s) are left out of these totals because no exchange rate to {currencySettings.baseCurrency} covers their currency. Add one in Settings.
+                        </span>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {[
+                        { label: 'Income', value: financeSummary.income, color: 'text-emerald-400' },
+                        { label: 'Expense', value: -financeSummary.expense, color: 'text-red-400' },
+                        { label: 'Net', value: net, color: net >= 0 ? 'text-emerald-400' : 'text-red-400' },
+                    ].map(card => (
+                        <div key={card.label} className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                            <div className="text-[10px] uppercase tracking-wider text-gray-500">{card.label} ({currencySettings.baseCurrency})</div>
+                            <div className={`font-mono font-bold text-lg ${card.color}`}>{formatMoney(card.value)}</div>
+                        </div>
+                    ))}
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-[10px] uppercase tracking-wider text-gray-500">Transactions</div>
+                        <div className="font-mono font-bold text-lg text-gray-200">{financeSummary.count}</div>
+                    </div>
+                </div>
+
+                {viewMode !== 'day' && (
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-3">Daily Spending</h4>
+                        <div className="flex items-end gap-0.5 h-32">
+                            {daily.map(d => (
+                                <div key={d.date} className="flex-1 h-full flex flex-col justify-end group/bar relative" title={`${d.date}: ${formatMoney(d.spent)}`}>
+                                    <div className="bg-red-500/60 group-hover/bar:bg-red-400 rounded-t transition-colors" style={{ height: `${(d.spent / maxDaily) * 100}%` }} />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-[10px] text-gray-600 font-mono mt-1">
+                            <span>{daily[0].date.slice(5)}</span>
+                            <span>{daily[daily.length - 1].date.slice(5)}</span>
+                        </div>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {renderBreakdown('By Tag', 'Tags', financeSummary.byTag)}
+                    {renderBreakdown('By Merchant', 'Store', financeSummary.byMerchant)}
+                    {renderBreakdown('By Payment', 'CreditCard', financeSummary.byPaymentMethod)}
+                </div>
+
+                <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                    <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-3 flex items-center gap-2">
+                        <Icons.PiggyBank className="w-3.5 h-3.5" /> Monthly Budgets · {budgetMonth} · {currencySettings.baseCurrency}
+                    </h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {financeTags.map(tag => {
+                            const status = budgetStatus.find(b => b.tag === tag);
+                            const barColor = !status ? '' : status.ratio > 1 ? 'bg-red-500' : status.ratio >= 0.8 ? 'bg-yellow-500' : 'bg-emerald-500';
+                            return (
+                                <div key={tag} className="bg-gray-800/40 border border-gray-800 rounded-lg p-2">
+                                    <div className="flex items-center justify-between gap-2 text-xs">
+                                        <span className="text-gray-300">{tag}</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            placeholder="No limit"
+                                            value={financeBudgets[tag] ?? ''}
+                                            onChange={e => setBudget(tag, e.target.value)}
+                                            className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-right font-mono text-gray-200 outline-none focus:border-blue-500"
+                                        />
+                                    </div>
+                                    {status && (
+                                        <>
+                                            <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden mt-2">
+                                                <div className={`h-full rounded-full ${barColor}`} style={{ width: `${Math.min(status.ratio, 1) * 100}%` }} />
+                                            </div>
+                                            <div className={`text-[10px] font-mono mt-1 ${status.ratio > 1 ? 'text-red-400' : 'text-gray-500'}`}>
+                                                {formatMoney(status.spent)} / {formatMoney(status.budget)} ({Math.round(status.ratio * 100)}%)
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderHealthView = () => {
+        const rangeEntries = entries.filter(e => e.date >= healthRange.start && e.date <= healthRange.end);
+        const healthCategories = Object.keys(categoryMeta).filter(k => categoryMeta[k].group === HEALTH_GROUP);
+        const emptyCategories: string[] = [];
+        const setPreset = (days: number) => {
+            const start = new Date();
+            start.setDate(start.getDate() - days + 1);
+            setHealthRange({ start: formatDate(start), end: formatDate(new Date()) });
+        };
+        const numberOf = (key: string) => (e: Entry) => {
+            const v = parseNumber(e.details?.[key]);
+            return isNaN(v) ? null : v;
+        };
+        const durationOf = (e: Entry) => parseDurationMinutes(e.details?.duration);
+
+        const renderChart = (title: string, chart: React.ReactNode) => (
+            <div key={title} className="bg-gray-800/40 border border-gray-800 rounded-lg p-3">
+                <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-2">{title}</div>
+                {chart}
+            </div>
+        );
+
+        const cards = healthCategories.map(cat => {
+            const catEntries = rangeEntries.filter(e => e.category === cat);
+            if (catEntries.length === 0) {
+                emptyCategories.push(cat);
+                return null;
+            }
+            const meta = categoryMeta[cat];
+            const color = String(meta.color || 'bg-gray-500').replace('bg-', 'text-');
+            const mode: TrendMode = meta.trend || 'daily';
+            const fields = (customSchemas[cat] || []).filter(f => !STANDARD_FIELD_KEYS.includes(f.key));
+            const numeric = fields.filter(isNumericField);
+            const categorical = fields.filter(f => f.type === 'select' || f.type === 'multiselect');
+            const hasDuration = catEntries.some(e => durationOf(e) !== null);
+            const charts: React.ReactNode[] = [];
+
+            if (mode === 'daily') {
+                numeric.forEach(f => {
+                    const points = dailySeries(catEntries, numberOf(f.key));
+                    if (points.length > 0) {
+                        charts.push(renderChart(`${f.label} · 7-day avg`, <TrendLineChart points={points} average={movingAverage(points)} unit={f.unit} className={color} />));
+                    }
+                });
+                if (hasDuration) {
+                    const points = dailySeries(catEntries, e => {
+                        const minutes = durationOf(e);
+                        return minutes === null ? null : Math.round(minutes / 60 * 100) / 100;
+                    }, 'sum');
+                    charts.push(renderChart('Duration (h) · 7-day avg', <TrendLineChart points={points} average={movingAverage(points)} unit="h" className={color} />));
+                }
+            } else {
+                charts.push(renderChart('Sessions / week', <TrendBarChart points={weeklyTotals(catEntries, () => 1, healthRange.start, healthRange.end)} className={color} />));
+                if (hasDuration) {
+                    charts.push(renderChart('Minutes / week', <TrendBarChart points={weeklyTotals(catEntries, durationOf, healthRange.start, healthRange.end)} unit="min" className={color} />));
+                }
+                numeric.forEach(f => {
+                    const points = weeklyTotals(catEntries, numberOf(f.key), healthRange.start, healthRange.end);
+                    if (points.some(p => p.value > 0)) {
+                        charts.push(renderChart(`${f.label} / week`, <TrendBarChart points={points} unit={f.unit} className={color} />));
+                    }
+                });
+            }
+
+            categorical.forEach(f => {
+                const counts = Object.entries(valueDistribution(catEntries, f.key)).sort((a, b) => b[1] - a[1]);
+                if (counts.length === 0) return;
+                const max = counts[0][1];
+                charts.push(renderChart(`${f.label} distribution`, (
+                    <div className="space-y-1.5">
+                        {counts.map(([value, count]) => (
+                            <div key={value} className="flex items-center gap-2 text-xs">
+                                <span className="w-16 truncate text-gray-300">{value}</span>
+                                <div className="flex-1 h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                                    <div className={`h-full rounded-full ${meta.color}`} style={{ width: `${(count / max) * 100}%` }} />
+                                </div>
+                                <span className="w-6 text-right font-mono text-gray-500">{count}</span>
+                            </div>
+                        ))}
+                    </div>
+                )));
+            });
+
+            return (
+                <div key={cat} className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                        <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
+                            <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                        </div>
+                        <span className="font-medium text-sm text-gray-300">{meta.label}</span>
+                        <span className="text-[10px] text-gray-600">{catEntries.length} records</span>
+                    </div>
+                    {charts.length === 0 ? (
+                        <div className="text-xs text-gray-600 italic">No numeric, duration or choice fields to chart.</div>
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">{charts}</div>
+                    )}
+                </div>
+            );
+        });
 
-        const sorted = [...filteredEntries].sort((a, b) => (a.details.time || "00:00").localeCompare(b.details.time || "00:00"));
+        return (
+            <div className="space-y-4 animate-fade-in">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {[30, 90, 365].map(days => (
+                        <button key={days} onClick={() => setPreset(days)} className="px-3 py-1.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800">
+                            {days}d
+                        </button>
+                    ))}
+                    <input type="date" value={healthRange.start} onChange={e => setHealthRange({ ...healthRange, start: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                    <span className="text-gray-600">→</span>
+                    <input type="date" value={healthRange.end} onChange={e => setHealthRange({ ...healthRange, end: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                </div>
+                {cards}
+                {emptyCategories.length > 0 && (
+                    <div className="text-xs text-gray-600 px-1">
+                        No records in this range: {emptyCategories.map(c => categoryMeta[c].label).join(', ')}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderReportView = () => {
+        if (!reportStats) return null;
+        const year = new Date().getFullYear();
+        const fileBase = `lifeos-report-${reportRange.start}_${reportRange.end}`;
+        const maxCategory = reportStats.byCategory[0]?.count || 1;
+        const section = (title: string, body: React.ReactNode) => (
+            <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-3">{title}</h4>
+                {body}
+            </div>
+        );
 
         return (
-            <div className="max-w-3xl mx-auto py-4 space-y-0 relative">
-                 <div className="absolute left-[59px] top-4 bottom-4 w-0.5 bg-gray-800/50 hidden sm:block" />
+            <div className="space-y-4 animate-fade-in">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {[year, year - 1].map(y => (
+                        <button 
+                            key={y}
+                            onClick={() => changeReportRange({ start: `${y}-01-01`, end: y === year ? formatDate(new Date()) : `${y}-12-31` })}
+                            className="px-3 py-1.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+                        >
+                            {y}
+                        </button>
+                    ))}
+                    <input type="date" value={reportRange.start} onChange={e => changeReportRange({ ...reportRange, start: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                    <span className="text-gray-600">→</span>
+                    <input type="date" value={reportRange.end} onChange={e => changeReportRange({ ...reportRange, end: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                    <div className="flex-1" />
+                    <button onClick={handleWriteNarrative} disabled={isWritingNarrative || reportStats.totalEntries === 0} className="flex items-center gap-1 px-3 py-1.5 rounded bg-purple-700 hover:bg-purple-600 text-white disabled:opacity-50">
+                        {isWritingNarrative ? <Icons.Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Icons.Sparkles className="w-3.5 h-3.5" />} Narrative
+                    </button>
+                    <button onClick={() => downloadFile(reportToMarkdown(reportStats, reportNarrative), `${fileBase}.md`, 'text/markdown')} className="flex items-center gap-1 px-3 py-1.5 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                        <Icons.Download className="w-3.5 h-3.5" /> Markdown
+                    </button>
+                    <button onClick={() => downloadFile(reportToHtml(reportStats, reportNarrative), `${fileBase}.html`, 'text/html')} className="flex items-center gap-1 px-3 py-1.5 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                        <Icons.Download className="w-3.5 h-3.5" /> HTML
+                    </button>
+                </div>
 
-                 {sorted.map((entry, idx) => {
-                     const meta = categoryMeta[entry.category] || categoryMeta['other'];
-                     return (
-                         <div key={entry.id} className="relative flex flex-col sm:flex-row gap-4 mb-6 group animate-fade-in">
-                             <div className="w-[60px] flex-shrink-0 flex flex-col items-end pt-1 relative">
-                                 <span className="font-mono text-blue-400 font-bold text-sm">{entry.details.time}</span>
-                                 <div className={`absolute top-2 -right-[5px] w-2.5 h-2.5 rounded-full ${meta.color} ring-4 ring-gray-950 hidden sm:block z-10`} />
-                             </div>
+                {reportNarrative && (
+                    <div className="bg-purple-900/10 border border-purple-800/40 rounded-xl p-4 text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">
+                        {reportNarrative}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {[
+                        { label: 'Entries', value: reportStats.totalEntries },
+                        { label: 'Active days', value: `${reportStats.activeDays} / ${reportStats.totalDays}` },
+                        { label: 'Longest streak', value: reportStats.longestStreak ? `${reportStats.longestStreak.length} d` : '—' },
+                        { label: `Spending (${reportStats.finance.currency})`, value: formatMoney(reportStats.finance.expense) },
+                    ].map(card => (
+                        <div key={card.label} className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                            <div className="text-[10px] uppercase tracking-wider text-gray-500">{card.label}</div>
+                            <div className="font-mono font-bold text-lg text-gray-200">{card.value}</div>
+                        </div>
+                    ))}
+                </div>
 
-                             <div 
-                                className="flex-1 bg-gray-900/60 border border-gray-800 rounded-xl p-3 hover:bg-gray-800/80 transition-colors cursor-pointer relative overflow-hidden"
-                                onClick={() => setEditingEntry(entry)}
-                             >
-                                 <div className="flex items-start justify-between gap-2 mb-2">
-                                     <div className="flex items-center gap-2">
-                                          <div className={`p-1.5 rounded-md ${meta.color} text-white`}>
-                                              <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
-                                          </div>
-                                          <span className="font-bold text-gray-200 text-sm">{entry.event}</span>
-                                     </div>
-                                     <button 
-                                        onClick={(e) => handleDeleteEntry(e, entry.id)}
-                                        className="text-gray-600 hover:text-red-400 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                                     >
-                                         <Icons.Trash2 className="w-3.5 h-3.5" />
-                                     </button>
-                                 </div>
-                                 
-                                 <div className="text-gray-400 pl-1 border-l-2 border-gray-800 ml-1">
-                                      {renderDetails(entry.category, entry.details)}
-                                 </div>
-                                 {entry.image && (
-                                     <img src={`data:image/jpeg;base64,${entry.image}`} className="w-16 h-16 object-cover rounded mt-2 border border-gray-700" />
-                                 )}
-                             </div>
-                         </div>
-                     );
-                 })}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="md:col-span-2">
+                        {section('By category', (
+                            <div className="space-y-2">
+                                {reportStats.byGroup.map(g => (
+                                    <div key={g.label} className="text-xs text-gray-400"><span className="font-bold text-gray-300">{g.label}</span> · {g.count}</div>
+                                ))}
+                                <div className="border-t border-gray-800 pt-2 space-y-1.5">
+                                    {reportStats.byCategory.map(c => (
+                                        <div key={c.category} className="flex items-center gap-2 text-xs">
+                                            <span className="w-24 truncate text-gray-300">{c.label}</span>
+                                            <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                                <div className={`h-full rounded-full ${categoryMeta[c.category]?.color || 'bg-gray-500'}`} style={{ width: `${(c.count / maxCategory) * 100}%` }} />
+                                            </div>
+                                            <span className="w-8 text-right font-mono text-gray-400">{c.count}</span>
+                                            <span className="w-20 text-right text-[10px] text-gray-600" title={formatStreak(c.longestStreak)}>
+                                                streak {c.longestStreak?.length || 0}d
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-3">
+                        {section('Busiest days', (
+                            <div className="space-y-1 text-xs">
+                                {reportStats.busiestDays.map(d => (
+                                    <button 
+                                        key={d.name}
+                                        onClick={() => {
+                                            setViewDate(new Date(d.name + 'T00:00:00'));
+                                            setViewMode('day');
+                                            setPanel('board');
+                                        }}
+                                        className="w-full flex justify-between text-gray-300 hover:text-white"
+                                    >
+                                        <span className="font-mono">{d.name}</span><span className="text-gray-500">{d.count}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                        {reportStats.moodWords.length > 0 && section('Mood words', (
+                            <div className="flex flex-wrap gap-1.5">
+                                {reportStats.moodWords.map(w => (
+                                    <span key={w.name} className="bg-indigo-900/40 text-indigo-200 rounded px-1.5 py-0.5 text-xs" style={{ fontSize: `${Math.min(11 + w.count * 1.5, 20)}px` }}>
+                                        {w.name}
+                                    </span>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </div>
 
-                 <div className="flex justify-center mt-8 pt-8 border-t border-gray-800/50 border-dashed">
-                      <button 
-                        onClick={() => {
-                            const now = new Date();
-                            const timeStr = now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-                            const newEntry = {
-                                id: Math.random().toString(36).substr(2,9),
-                                date: formatDate(viewDate),
-                                category: 'other',
-                                event: 'New Event',
-                                details: { summary: 'Quick add', time: timeStr, notes: '' }
-                            };
-                            setEntries(prev => [...prev, newEntry]);
-                            setEditingEntry(newEntry);
-                        }}
-                        className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-400 hover:text-white transition-all"
-                      >
-                          <Icons.Plus className="w-4 h-4" />
-                          <span className="text-xs">Add Event</span>
-                      </button>
-                 </div>
+                {reportStats.topLists.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {reportStats.topLists.map(list => (
+                            <React.Fragment key={list.title}>
+                                {section(list.title, (
+                                    <ol className="space-y-1 text-xs">
+                                        {list.items.map((item, i) => (
+                                            <li key={item.name} className="flex justify-between gap-2 text-gray-300">
+                                                <span className="truncate"><span className="text-gray-600 mr-1">{i + 1}.</span>{item.name}</span>
+                                                <span className="text-gray-500">{item.count}</span>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                ))}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
             </div>
-        )
-    }
+        );
+    };
 
     const viewModes: ('day' | 'week' | 'month')[] = ['day', 'week', 'month'];
 
@@ -897,29 +3733,30 @@ const DashboardView = ({
                     </div>
                 </div>
                 
-                <button 
-                    onClick={() => setIsLogView(!isLogView)} 
-                    className={`w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2 rounded-lg border text-xs transition-colors font-medium ${
-                        isLogView 
-                        ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' 
-                        : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
-                    }`}
-                >
-                    {isLogView ? (
-                        <>
-                            <Icons.LayoutGrid className="w-4 h-4" />
-                            <span>Dashboard</span>
-                        </>
-                    ) : (
-                        <>
-                            <Icons.ScrollText className="w-4 h-4" />
-                            <span>Logs</span>
-                        </>
-                    )}
-                </button>
+                <div className="flex gap-2 w-full sm:w-auto">
+                    {([
+                        { id: 'finance', label: 'Finance', icon: 'Wallet', active: 'bg-emerald-600 border-emerald-500 shadow-emerald-900/20' },
+                        { id: 'health', label: 'Health', icon: 'HeartPulse', active: 'bg-rose-600 border-rose-500 shadow-rose-900/20' },
+                        { id: 'report', label: 'Report', icon: 'FileBarChart', active: 'bg-amber-600 border-amber-500 shadow-amber-900/20' },
+                        { id: 'logs', label: 'Logs', icon: 'ScrollText', active: 'bg-blue-600 border-blue-500 shadow-blue-900/20' },
+                    ] as const).map(p => (
+                        <button 
+                            key={p.id}
+                            onClick={() => setPanel(panel === p.id ? 'board' : p.id)} 
+                            className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 rounded-lg border text-xs transition-colors font-medium ${
+                                panel === p.id 
+                                ? `${p.active} text-white shadow-lg` 
+                                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+                            }`}
+                        >
+                            <IconComponent name={panel === p.id ? 'LayoutGrid' : p.icon} className="w-4 h-4" />
+                            <span>{panel === p.id ? 'Dashboard' : p.label}</span>
+                        </button>
+                    ))}
+                </div>
              </div>
              
-             {!isLogView && viewMode === 'week' && (
+             {panel === 'board' && viewMode === 'week' && (
                  <div className="flex flex-col sm:flex-row gap-4 items-center justify-between px-2 animate-fade-in">
                      <div className="flex bg-gray-800/50 rounded-lg p-1 border border-gray-700/50">
                          <button 
@@ -975,8 +3812,43 @@ const DashboardView = ({
                  </div>
              )}
 
+             {panel === 'board' && viewMode === 'month' && (
+                 <div className="flex flex-col sm:flex-row gap-4 items-center justify-between px-2 animate-fade-in">
+                     <div className="flex bg-gray-800/50 rounded-lg p-1 border border-gray-700/50">
+                         <button 
+                             onClick={() => setMonthViewType('calendar')}
+                             className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs transition-all ${monthViewType === 'calendar' ? 'bg-gray-700 text-white shadow' : 'text-gray-500 hover:text-gray-300'}`}
+                         >
+                             <Icons.CalendarDays className="w-4 h-4" />
+                             <span>Grid</span>
+                         </button>
+                         <button 
+                             onClick={() => setMonthViewType('category')}
+                             className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs transition-all ${monthViewType === 'category' ? 'bg-gray-700 text-white shadow' : 'text-gray-500 hover:text-gray-300'}`}
+                         >
+                             <Icons.LayoutGrid className="w-4 h-4" />
+                             <span>Cards</span>
+                         </button>
+                     </div>
+
+                     {monthViewType === 'calendar' && (
+                         <label className="flex items-center gap-2 text-xs text-gray-500">
+                             <Icons.Flame className="w-4 h-4" />
+                             <select 
+                                 value={heatMapField}
+                                 onChange={e => setHeatMapField(e.target.value)}
+                                 className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none"
+                             >
+                                 <option value="">No heat map</option>
+                                 {heatMapOptions(categoryMeta, customSchemas).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                             </select>
+                         </label>
+                     )}
+                 </div>
+             )}
+
              <div className="flex-1 relative">
-                 {isLogView ? (
+                 {panel === 'logs' ? (
                      <div className="h-full bg-gray-900/30 border border-gray-800/50 rounded-2xl p-4 sm:p-6 animate-fade-in flex flex-col">
                          <div className="flex items-center gap-3 mb-6 border-b border-gray-800 pb-4">
                              <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
@@ -1057,17 +3929,30 @@ const DashboardView = ({
                                                  {log.text}
                                              </div>
                                          )}
+                                         {log.audio && <audio controls src={audioSrc(log.audio)} className="mt-3 w-full h-8" />}
                                      </div>
                                  ))
                              )}
                          </div>
                      </div>
+                 ) : panel === 'finance' ? (
+                     renderFinanceView()
+                 ) : panel === 'health' ? (
+                     renderHealthView()
+                 ) : panel === 'report' ? (
+                     renderReportView()
                  ) : viewMode === 'day' ? (
                      renderTimeline()
                  ) : viewMode === 'week' ? (
                      weekViewType === 'calendar' ? renderWeekCalendar() : renderWeekCategoryList()
+                 ) : monthViewType === 'calendar' ? (
+                     <div className="space-y-6">
+                         {renderCycleSummary()}
+                         {renderMonthCalendar()}
+                     </div>
                  ) : (
                      <div className="space-y-6">
+                         {renderCycleSummary()}
                          {groups.map(g => (
                              <div key={g.id} className="animate-fade-in">
                                  <h3 className="text-xs font-bold uppercase tracking-wider text-gray-600 mb-3 px-1">{g.label}</h3>
@@ -1087,35 +3972,39 @@ export default function Index() {
   const [entries, setEntries] = useState<Entry[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [rawLogs, setRawLogs] = useState<RawLog[]>([]);
+  const [images, setImages] = useState<StoredImage[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
   
   const [activeTab, setActiveTab] = useState<'chat' | 'dashboard' | 'settings'>('chat');
   const [viewDate, setViewDate] = useState<Date>(new Date());
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('day');
+  const [dashboardPanel, setDashboardPanel] = useState<DashboardPanel>('board');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [showAIControl, setShowAIControl] = useState(false);
   
   const [inputText, setInputText] = useState('');
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [lightboxImage, setLightboxImage] = useState<string | null>(null);
+  const chatImageInputRef = useRef<HTMLInputElement>(null);
+  const [voiceState, setVoiceState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const [pendingAudio, setPendingAudio] = useState<AudioClip | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const isTalkHeldRef = useRef(false);
+  const entryImageInputRef = useRef<HTMLInputElement>(null);
   const [editingMsgIndex, setEditingMsgIndex] = useState<number | null>(null);
   const [editingMsgText, setEditingMsgText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamingTimestamp, setStreamingTimestamp] = useState<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   
-  const [aiConfig, setAiConfig] = useState<AISettings>({
-    chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
-    organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
-    loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
-    batchSize: 30,
-  });
+  const [aiConfig, setAiConfig] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  const [modelTests, setModelTests] = useState<Partial<Record<ModelPipeline, ModelTestResult | 'running'>>>({});
   
-  const [chatSettings, setChatSettings] = useState<ChatSettings>({
-      chatEnabled: true,
-      organizerEnabled: true,
-      contextRounds: 10,
-      contextMode: 'global',
-      customStartDate: new Date().toISOString().split('T')[0],
-      customEndDate: new Date().toISOString().split('T')[0]
-  });
+  const [chatSettings, setChatSettings] = useState<ChatSettings>(DEFAULT_CHAT_SETTINGS);
+  // A recording's onstop handler outlives the render that started it, so it reads the setting from here
+  const keepVoiceRecordingsRef = useRef(DEFAULT_CHAT_SETTINGS.keepVoiceRecordings);
+  useEffect(() => { keepVoiceRecordingsRef.current = chatSettings.keepVoiceRecordings; }, [chatSettings.keepVoiceRecordings]);
 
   const [customSchemas, setCustomSchemas] = useState<Record<string, FieldSchema[]>>(INITIAL_SCHEMAS);
   const [groups, setGroups] = useState<GroupDef[]>(INITIAL_GROUPS);
@@ -1125,123 +4014,267 @@ export default function Index() {
   
   const [editingSchemaCat, setEditingSchemaCat] = useState<string | null>(null);
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
+  const [categoryDeletion, setCategoryDeletion] = useState<{ key: string; target: string; mapping: Record<string, string> } | null>(null);
+  const [fieldConversionCat, setFieldConversionCat] = useState<string | null>(null); // Category whose entries are being converted to its edited fields
+  const [groupDeletion, setGroupDeletion] = useState<{ id: string; target: string } | null>(null);
+  const [templatePickerGroup, setTemplatePickerGroup] = useState<string | null>(null); // Group a new category goes into
+
+  // Logger: timestamp of the last user message already summarized into a diary entry
+  const [loggerWatermark, setLoggerWatermark] = useState<number>(0);
+  const [isLogging, setIsLogging] = useState(false);
+  const isLoggingRef = useRef(false);
+
+  const [financeBudgets, setFinanceBudgets] = useState<Record<string, number>>({});
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+
+  const [pendingImport, setPendingImport] = useState<{ bundle: BackupBundle; fileName: string; mode: ImportMode } | null>(null);
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [highlightedMessage, setHighlightedMessage] = useState<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const templateInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const load = <T,>(key: string, setter: React.Dispatch<React.SetStateAction<T>>, def: T) => {
-      const saved = localStorage.getItem(key);
-      if (saved) setter(JSON.parse(saved));
-      else setter(def);
-    };
-    load<Entry[]>('lifeos_entries', setEntries, []);
-    load<ChatMessage[]>('lifeos_messages', setMessages, []);
-    
-    const savedLogs = localStorage.getItem('lifeos_rawlogs');
-    if (savedLogs) {
-        const parsed: any[] = JSON.parse(savedLogs);
-        const migrated = parsed.map(log => {
-            if (!log.id) return { ...log, id: Math.random().toString(36).substr(2, 9) };
-            return log;
-        });
-        setRawLogs(migrated);
-    } else {
-        setRawLogs([]);
-    }
+    const load = async () => {
+      await migrateFromLocalStorage(storage);
+      const [savedEntries, savedMessages, savedLogs, savedImages] = await Promise.all([
+          storage.getAll('entries'),
+          storage.getAll('messages'),
+          storage.getAll('rawLogs'),
+          storage.getAll('images')
+      ]);
+      const savedWatermark = await storage.getValue<number>('loggerWatermark');
+      const loaded: LifeOSData = {
+          entries: savedEntries,
+          messages: savedMessages.sort((a, b) => a.timestamp - b.timestamp),
+          rawLogs: savedLogs,
+          images: savedImages,
+          aiConfig: await storage.getValue<AISettings>('aiConfig') ?? DEFAULT_AI_SETTINGS,
+          chatSettings: await storage.getValue<ChatSettings>('chatSettings') ?? DEFAULT_CHAT_SETTINGS,
+          customSchemas: await storage.getValue<Record<string, FieldSchema[]>>('customSchemas') ?? INITIAL_SCHEMAS,
+          groups: await storage.getValue<GroupDef[]>('groups') ?? INITIAL_GROUPS,
+          categoryMeta: await storage.getValue<Record<string, any>>('categoryMeta') ?? INITIAL_CATEGORY_META,
+          // Existing profiles start the logger at the end of their history instead of summarizing all of it
+          loggerWatermark: savedWatermark ?? (savedMessages.length > 0 ? savedMessages[savedMessages.length - 1].timestamp : 0),
+          financeBudgets: await storage.getValue<Record<string, number>>('financeBudgets') ?? {},
+          currencySettings: await storage.getValue<CurrencySettings>('currencySettings') ?? DEFAULT_CURRENCY_SETTINGS
+      };
 
-    load<AISettings>('lifeos_aiconfig', setAiConfig, {
-        chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
-        organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
-        loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
-        batchSize: 30,
-    });
-    load<ChatSettings>('lifeos_chatsettings', setChatSettings, {
-        chatEnabled: true,
-        organizerEnabled: true,
-        contextRounds: 10,
-        contextMode: 'global',
-        customStartDate: new Date().toISOString().split('T')[0],
-        customEndDate: new Date().toISOString().split('T')[0]
+      const fromVersion = await storage.getValue<number>('dataVersion') ?? 0;
+      const data = runMigrations(loaded, fromVersion);
+      if (fromVersion < DATA_VERSION) await saveMigratedData(storage, loaded, data, DATA_VERSION);
+
+      setEntries([...data.entries].sort((a, b) => String(a.date || '').localeCompare(String(b.date || '')) || String(a.details?.time || '').localeCompare(String(b.details?.time || ''))));
+      setMessages(data.messages);
+      setRawLogs([...data.rawLogs].sort((a, b) => a.timestamp - b.timestamp));
+      setImages(data.images);
+      setAiConfig(data.aiConfig);
+      setChatSettings(data.chatSettings);
+      setCustomSchemas(data.customSchemas);
+      setGroups(data.groups);
+      setCategoryMeta(data.categoryMeta);
+      setLoggerWatermark(data.loggerWatermark);
+      setFinanceBudgets(data.financeBudgets);
+      setCurrencySettings(data.currencySettings);
+      setIsLoaded(true);
+    };
+    load().catch(e => {
+        console.error("Failed to load data", e);
+        alert("Failed to load saved data. Changes will not be saved until the page is reloaded.");
     });
-    
-    const savedSchemas = localStorage.getItem('lifeos_schemas');
-    if (savedSchemas) {
-        const parsed = JSON.parse(savedSchemas);
-        setCustomSchemas({...INITIAL_SCHEMAS, ...parsed});
-    } else {
-        setCustomSchemas(INITIAL_SCHEMAS);
-    }
-
-    load<GroupDef[]>('lifeos_groups', setGroups, INITIAL_GROUPS);
-    load<Record<string, any>>('lifeos_categorymeta', setCategoryMeta, INITIAL_CATEGORY_META);
   }, []);
 
-  useEffect(() => localStorage.setItem('lifeos_entries', JSON.stringify(entries)), [entries]);
-  useEffect(() => localStorage.setItem('lifeos_messages', JSON.stringify(messages)), [messages]);
-  useEffect(() => localStorage.setItem('lifeos_rawlogs', JSON.stringify(rawLogs)), [rawLogs]);
-  useEffect(() => localStorage.setItem('lifeos_aiconfig', JSON.stringify(aiConfig)), [aiConfig]);
-  useEffect(() => localStorage.setItem('lifeos_chatsettings', JSON.stringify(chatSettings)), [chatSettings]);
-  useEffect(() => localStorage.setItem('lifeos_schemas', JSON.stringify(customSchemas)), [customSchemas]);
-  useEffect(() => localStorage.setItem('lifeos_groups', JSON.stringify(groups)), [groups]);
-  useEffect(() => localStorage.setItem('lifeos_categorymeta', JSON.stringify(categoryMeta)), [categoryMeta]);
+  usePersistedCollection('entries', entries, isLoaded);
+  usePersistedCollection('messages', messages, isLoaded, streamingTimestamp);
+  usePersistedCollection('rawLogs', rawLogs, isLoaded);
+  usePersistedCollection('images', images, isLoaded);
+  usePersistedValue('aiConfig', aiConfig, isLoaded);
+  usePersistedValue('chatSettings', chatSettings, isLoaded);
+  usePersistedValue('customSchemas', customSchemas, isLoaded);
+  usePersistedValue('groups', groups, isLoaded);
+  usePersistedValue('categoryMeta', categoryMeta, isLoaded);
+  usePersistedValue('loggerWatermark', loggerWatermark, isLoaded);
+  usePersistedValue('financeBudgets', financeBudgets, isLoaded);
+  usePersistedValue('currencySettings', currencySettings, isLoaded);
+
+  const imageData = useMemo(() => Object.fromEntries(images.map(i => [i.id, i.data])), [images]);
+  const imageOf = (id?: string): string | undefined => id ? imageData[id] : undefined;
+
+  // Deleting the last message or entry that shows a photo deletes the photo
+  useEffect(() => {
+    if (!isLoaded) return;
+    const used = referencedImageIds(entries, messages);
+    if (editingEntry?.imageId) used.add(editingEntry.imageId);
+    setImages(prev => prev.every(i => used.has(i.id)) ? prev : prev.filter(i => used.has(i.id)));
+  }, [isLoaded, entries, messages, editingEntry]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const getFilteredHistory = () => {
-      let filtered = messages.filter(m => m.role === 'user');
-      const now = new Date();
-      if (chatSettings.contextMode === 'today') {
-          filtered = filtered.filter(m => isSameDay(new Date(m.timestamp), now));
-      } else if (chatSettings.contextMode === 'week') {
-          const { start, end } = getRollingWeekRange(now);
-          filtered = filtered.filter(m => m.timestamp >= start.getTime() && m.timestamp <= end.getTime());
-      } else if (chatSettings.contextMode === 'custom') {
-          const s = new Date(chatSettings.customStartDate).getTime();
-          const e = new Date(chatSettings.customEndDate).getTime() + 86400000;
-          filtered = filtered.filter(m => m.timestamp >= s && m.timestamp <= e);
-      }
-      if (chatSettings.contextRounds < 9999) {
-          filtered = filtered.slice(-chatSettings.contextRounds);
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
       }
-      return filtered;
-  };
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-  const chatWithGemini = async (history: ChatMessage[], newMsg: string, signal: AbortSignal, regenerate = false) => {
-    if (!GOOGLE_API_KEY) return "Error: No API Key";
+  useEffect(() => {
+    if (!lightboxImage) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setLightboxImage(null); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [lightboxImage]);
+
+  // Search results jump to a chat message: scroll it into view once the chat tab has rendered
+  useEffect(() => {
+    if (activeTab !== 'chat' || highlightedMessage === null) return;
+    document.getElementById(`msg-${highlightedMessage}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [activeTab, highlightedMessage]);
+
+  const searchIndex = useMemo(
+      () => isSearchOpen ? buildSearchIndex(entries, rawLogs, messages) : [],
+      [isSearchOpen, entries, rawLogs, messages]
+  );
+  const searchQuery = useMemo(() => parseSearchQuery(searchText), [searchText]);
+  const searchResults = useMemo(() => runSearch(searchIndex, searchQuery, categoryMeta), [searchIndex, searchQuery, categoryMeta]);
+
+  // `history` is everything before `newMsg`; the new message is always sent, whatever the context limits
+  // Streams the reply; `onUpdate` receives the accumulated text and tool steps as they arrive.
+  // Aborting `signal` cancels the underlying request and resolves with whatever was received.
+  const chatWithGemini = async (
+    history: ChatMessage[],
+    newMsg: string,
+    image: string | undefined,
+    signal: AbortSignal,
+    onUpdate: (text: string, toolSteps: ToolStep[]) => void
+  ): Promise<{ text: string; toolSteps: ToolStep[]; interrupted: boolean }> => {
+    if (!GOOGLE_API_KEY) return { text: "Error: No API Key", toolSteps: [], interrupted: false };
     const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
     
-    let prompt = aiConfig.chatInstructions + "\n\nChat History:\n";
-    history.forEach(m => {
-        prompt += `${m.role === 'user' ? 'User' : 'You'}: ${m.text}\n`;
-    });
-    if (!regenerate) {
-        prompt += `User: ${newMsg}\n`;
-    }
+    const contents = buildChatContents(history, chatSettings);
+    const newParts: Part[] = [];
+    if (newMsg) newParts.push({ text: newMsg });
+    if (image) newParts.push({ inlineData: { mimeType: 'image/jpeg', data: image } });
+    const last = contents[contents.length - 1];
+    if (last?.role === 'user') last.parts!.push(...newParts);
+    else contents.push({ role: 'user', parts: newParts });
     
-    if (signal.aborted) return "";
+    let text = "";
+    const toolSteps: ToolStep[] = [];
+    if (signal.aborted) return { text, toolSteps, interrupted: true };
+
+    const toolContext: ChatToolContext = { entries, rawLogs, customSchemas, categoryMeta, currencySettings };
+    const systemInstruction = `${aiConfig.chatInstructions}\n${CHAT_TOOL_INSTRUCTIONS}\nToday: ${formatDate(new Date())}`;
+    const tools = [{ functionDeclarations: buildChatToolDeclarations(categoryMeta) }];
 
     try {
-        const generatePromise = ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: prompt,
-        });
+        // Each round either answers or asks for tool calls; after MAX_TOOL_ROUNDS the model must answer
+        for (let round = 0; ; round++) {
+            const mustAnswer = round >= MAX_TOOL_ROUNDS;
+            const stream = await ai.models.generateContentStream({
+                model: aiConfig.models.chat.model,
+                contents,
+                config: {
+                    ...profileConfig(aiConfig.models.chat),
+                    systemInstruction,
+                    tools,
+                    toolConfig: mustAnswer ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } : undefined,
+                    abortSignal: signal
+                },
+            });
+
+            const roundParts: Part[] = [];
+            const calls: FunctionCall[] = [];
+            for await (const chunk of stream) {
+                const parts = chunk.candidates?.[0]?.content?.parts || [];
+                roundParts.push(...parts);
+                parts.forEach(p => { if (p.functionCall) calls.push(p.functionCall); });
+                const delta = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+                if (delta) {
+                    text += delta;
+                    onUpdate(text, toolSteps);
+                }
+            }
 
-        const abortPromise = new Promise((_, reject) => {
-            signal.addEventListener('abort', () => reject(new Error('Aborted')));
-        });
+            if (calls.length === 0 || mustAnswer) {
+                return { text, toolSteps, interrupted: false };
+            }
 
-        const res = await Promise.race([generatePromise, abortPromise]) as GenerateContentResponse;
-        return res.text || "";
+            // The model turn goes back verbatim so its function calls (and thought signatures) line up
+            contents.push({ role: 'model', parts: roundParts });
+            const responseParts: Part[] = calls.map(call => {
+                const name = call.name || '';
+                const args = call.args || {};
+                const result = runChatTool(name, args, toolContext);
+                toolSteps.push({ name, args, result: trimToolResult(result) });
+                return { functionResponse: { id: call.id, name, response: { result } } };
+            });
+            contents.push({ role: 'user', parts: responseParts });
+            onUpdate(text, [...toolSteps]);
+        }
     } catch (e: any) {
-        if (e.message === 'Aborted') return ""; 
+        if (signal.aborted) return { text, toolSteps, interrupted: true }; 
         console.error(e);
-        return "Thinking process interrupted or failed.";
+        return { text: text || "Thinking process interrupted or failed.", toolSteps, interrupted: false };
+    }
+  };
+
+  // Streams a companion reply into the model message at `timestamp` (adding it if it doesn't exist yet).
+  // If the user stops before anything arrives, the message reverts to what it was before.
+  const streamChatReply = async (history: ChatMessage[], newMsg: string, image: string | undefined, timestamp: number, signal: AbortSignal) => {
+      const original = messages.find(m => m.timestamp === timestamp);
+      const update = (patch: Partial<ChatMessage>) => setMessages(prev => prev.map(m => m.timestamp === timestamp ? { ...m, ...patch } : m));
+      if (!original) setMessages(prev => [...prev, { role: 'model', text: '', timestamp }]);
+      setStreamingTimestamp(timestamp);
+
+      const result = await chatWithGemini(history, newMsg, image, signal, (text, toolSteps) => update({ text, toolSteps, interrupted: undefined }));
+      setStreamingTimestamp(null);
+
+      if (result.interrupted && !result.text && result.toolSteps.length === 0) {
+          if (original) update(original);
+          else setMessages(prev => prev.filter(m => m.timestamp !== timestamp));
+          return;
+      }
+      update({ text: result.text || "...", toolSteps: result.toolSteps, interrupted: result.interrupted || undefined });
+  };
+
+  // Cheap first pass that narrows down the tables the organizer prompt describes; null means "all of them"
+  const preclassifyInput = async (text: string, image?: string): Promise<string[] | null> => {
+    const categories = Object.keys(categoryMeta);
+    if (!GOOGLE_API_KEY || categories.length < PRECLASSIFY_MIN_CATEGORIES) return null;
+    const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+    const prompt = `${buildPreclassifyInstructions(categoryMeta)}${image ? '\nA photo is attached to the input; consider what it shows.\n' : ''}\nUser Input: "${text}"`;
+    const profile = aiConfig.models.classifier;
+    try {
+      const res = await ai.models.generateContent({
+        model: profile.model,
+        contents: image ? [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: 'image/jpeg', data: image } }] }] : prompt,
+        config: {
+            ...profileConfig(profile),
+            responseMimeType: "application/json",
+            responseSchema: { type: Type.ARRAY, items: { type: Type.STRING, enum: categories } }
+        }
+      });
+      return res.text ? JSON.parse(res.text) as string[] : null;
+    } catch (e) {
+      console.error("Pre-classification failed", e);
+      return null;
     }
   };
 
-  const organizeInput = async (text: string, dateStr: string): Promise<any[]> => {
+  const organizeInput = async (text: string, dateStr: string, image?: string): Promise<any[]> => {
     if (!GOOGLE_API_KEY) return [];
     const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+    const categories = selectOrganizerCategories(await preclassifyInput(text, image), categoryMeta);
+    const schemas = Object.fromEntries(categories.map(cat => [cat, customSchemas[cat] || []]));
     
     const prompt = `
 ${aiConfig.organizerInstructions}
@@ -1251,19 +4284,18 @@ Current Time: ${new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-di
 IMPORTANT: Analyze the input for time references (e.g., "Yesterday", "Last Friday"). If found, calculate the specific date (YYYY-MM-DD) based on Current Date. If not, use Current Date. Return this in the "date" field.
 
 Defined Schemas:
-${Object.entries(customSchemas).map(([cat, fields]) => `
-Table: ${cat}
-Fields: ${fields.map(f => `- ${f.key} (${f.type}): ${f.label}`).join(', ')}
-`).join('\n')}
-
+${categories.map(cat => `\n${describeCategoryForOrganizer(cat, schemas[cat], categoryMeta[cat])}\n`).join('\n')}
+${ORGANIZER_CONFIDENCE_INSTRUCTIONS}${image ? `\n${ORGANIZER_IMAGE_INSTRUCTIONS}` : ''}
 User Input: "${text}"
 `;
 
+    const profile = image ? aiConfig.models.vision : aiConfig.models.organizer;
     try {
       const res = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
+        model: profile.model,
+        contents: image ? [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: 'image/jpeg', data: image } }] }] : prompt,
         config: {
+            ...profileConfig(profile),
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.ARRAY,
@@ -1271,23 +4303,12 @@ User Input: "${text}"
                     type: Type.OBJECT,
                     properties: {
                         date: { type: Type.STRING, description: "YYYY-MM-DD" },
-                        category: { type: Type.STRING, enum: Object.keys(categoryMeta) },
+                        category: { type: Type.STRING, enum: categories },
                         event: { type: Type.STRING, description: "1-2 words Title" },
-                        details: { type: Type.OBJECT, properties: {
-                            summary: { type: Type.STRING },
-                            time: { type: Type.STRING },
-                            duration: { type: Type.STRING, nullable: true },
-                            notes: { type: Type.STRING, nullable: true },
-                            transaction_type: { type: Type.STRING, nullable: true },
-                            amount: { type: Type.NUMBER, nullable: true },
-                            currency: { type: Type.STRING, nullable: true },
-                            tags: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
-                            title: { type: Type.STRING, nullable: true },
-                            value: { type: Type.NUMBER, nullable: true },
-                            item: { type: Type.STRING, nullable: true }
-                        }, required: ["summary", "time"]}
+                        details: buildDetailsResponseSchema(schemas),
+                        ...ASSESSMENT_RESPONSE_PROPERTIES
                     },
-                    required: ["category", "event", "date", "details"]
+                    required: ["category", "event", "date", "details", "confidence"]
                 }
             }
         }
@@ -1301,61 +4322,331 @@ User Input: "${text}"
     }
   };
 
+  // Folds the user's reply to a follow-up question into the draft; null when the organizer couldn't be reached
+  // or `signal` was aborted
+  const mergeDraftAnswer = async (draft: Entry, question: string, answer: string, signal: AbortSignal): Promise<any | null> => {
+    if (!GOOGLE_API_KEY) return null;
+    const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+    const schemas = { [draft.category]: customSchemas[draft.category] || [] };
+    const { id, imageId, ...draftForPrompt } = draft;
+
+    const prompt = `
+${aiConfig.organizerInstructions}
+
+${DRAFT_ANSWER_INSTRUCTIONS}
+${ORGANIZER_CONFIDENCE_INSTRUCTIONS}
+Current Date: ${formatDate(new Date())}
+
+${describeCategoryForOrganizer(draft.category, schemas[draft.category], categoryMeta[draft.category])}
+
+Draft: ${JSON.stringify(draftForPrompt)}
+Your Question: "${question}"
+User Reply: "${answer}"
+`;
+
+    const profile = aiConfig.models.organizer;
+    try {
+      const res = await ai.models.generateContent({
+        model: profile.model,
+        contents: prompt,
+        config: {
+            ...profileConfig(profile),
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    answered: { type: Type.BOOLEAN },
+                    date: { type: Type.STRING, description: "YYYY-MM-DD" },
+                    event: { type: Type.STRING, description: "1-2 words Title" },
+                    details: buildDetailsResponseSchema(schemas),
+                    ...ASSESSMENT_RESPONSE_PROPERTIES
+                },
+                required: ["answered", "date", "event", "details", "confidence"]
+            },
+            abortSignal: signal
+        }
+      });
+      return res.text ? JSON.parse(res.text) : null;
+    } catch (e) {
+      if (!signal.aborted) console.error("Draft update failed", e);
+      return null;
+    }
+  };
+
+  const transcribeAudio = async (clip: AudioClip): Promise<string> => {
+    if (!GOOGLE_API_KEY) throw new Error('No API Key');
+    const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+    const res = await ai.models.generateContent({
+      model: aiConfig.models.vision.model,
+      contents: [{ role: 'user', parts: [{ text: TRANSCRIPTION_INSTRUCTIONS }, { inlineData: { mimeType: clip.mimeType, data: clip.data } }] }],
+      config: profileConfig(aiConfig.models.vision)
+    });
+    return (res.text || '').trim();
+  };
+
+  const summarizeChatBatch = async (batch: ChatMessage[]): Promise<{ summary: string; mood?: string; content: string } | null> => {
+    if (!GOOGLE_API_KEY) return null;
+    const ai = new GoogleGenAI({ apiKey: GOOGLE_API_KEY });
+
+    const transcript = batch.map(m => {
+        const time = new Date(m.timestamp).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+        return `[${time}] ${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`;
+    }).join('\n');
+
+    const prompt = `
+${aiConfig.loggerInstructions}
+
+Return JSON with:
+- "summary": 10字以内的简述
+- "mood": one or two words describing the user's mood (optional)
+- "content": the diary paragraph
+
+Chat Messages:
+${transcript}
+`;
+
+    try {
+      const res = await ai.models.generateContent({
+        model: aiConfig.models.logger.model,
+        contents: prompt,
+        config: {
+            ...profileConfig(aiConfig.models.logger),
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    summary: { type: Type.STRING },
+                    mood: { type: Type.STRING, nullable: true },
+                    content: { type: Type.STRING }
+                },
+                required: ["summary", "content"]
+            }
+        }
+      });
+      const txt = res.text;
+      if (!txt) return null;
+      return JSON.parse(txt);
+    } catch (e) {
+      console.error("Logger failed", e);
+      return null;
+    }
+  };
+
+  // Summarizes the oldest pending user messages (up to batchSize) into one diary entry and advances the watermark
+  const runLogger = async () => {
+    if (isLoggingRef.current) return;
+    const pendingUser = messages.filter(m => m.role === 'user' && m.timestamp > loggerWatermark);
+    if (pendingUser.length === 0) return;
+
+    const batchUser = aiConfig.batchSize > 0 ? pendingUser.slice(0, aiConfig.batchSize) : pendingUser;
+    const batchEnd = batchUser[batchUser.length - 1].timestamp;
+    // Model replies in the same window are included for context, but only user messages count towards the batch
+    const batch = messages.filter(m => m.role !== 'system' && m.timestamp > loggerWatermark && m.timestamp <= batchEnd);
+
+    isLoggingRef.current = true;
+    setIsLogging(true);
+    try {
+        const result = await summarizeChatBatch(batch);
+        if (!result) return;
+
+        const end = new Date(batchEnd);
+        const newEntry: Entry = {
+            id: Math.random().toString(36).substr(2, 9),
+            date: formatDate(end),
+            category: 'diary',
+            event: '闲聊速记',
+            details: {
+                summary: result.summary,
+                time: end.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}),
+                mood: result.mood || '',
+                notes: result.content
+            },
+            sourceMessageTimestamps: batchUser.map(m => m.timestamp)
+        };
+
+        setEntries(prev => [...prev, newEntry]);
+        setLoggerWatermark(batchEnd);
+        setMessages(prev => [...prev, {
+            role: 'system',
+            text: `Logged: [${newEntry.date}] ${newEntry.event} (${batchUser.length} messages)`,
+            timestamp: uniqueTimestamp(),
+            relatedEntryIds: [newEntry.id]
+        }]);
+    } finally {
+        isLoggingRef.current = false;
+        setIsLogging(false);
+    }
+  };
+
+  const pendingLogCount = useMemo(
+      () => messages.filter(m => m.role === 'user' && m.timestamp > loggerWatermark).length,
+      [messages, loggerWatermark]
+  );
+
+  useEffect(() => {
+      if (aiConfig.batchSize > 0 && pendingLogCount >= aiConfig.batchSize) {
+          runLogger();
+      }
+  }, [pendingLogCount, aiConfig.batchSize]);
+
   const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() && !pendingImage) return;
     if (isProcessing) return;
 
     const controller = new AbortController();
     abortControllerRef.current = controller;
     setIsProcessing(true);
 
-    const userMsg: ChatMessage = { role: 'user', text: inputText, timestamp: Date.now() };
+    const attachedImage = pendingImage ? createStoredImage(pendingImage) : null;
+    const userMsg: ChatMessage = { role: 'user', text: inputText.trim(), timestamp: uniqueTimestamp(), imageId: attachedImage?.id };
+    const pendingQuestion = findPendingDraftQuestion(messages);
     const tempMessages = [...messages, userMsg];
     setMessages(tempMessages);
+    if (attachedImage) setImages(prev => [...prev, attachedImage]);
     setInputText('');
+    setPendingImage(null);
+    setPendingAudio(null);
     
-    setRawLogs(prev => [...prev, { id: Math.random().toString(36).substr(2,9), timestamp: userMsg.timestamp, text: userMsg.text }]);
-
-    const relevantHistory = getFilteredHistory();
+    setRawLogs(prev => [...prev, {
+        id: Math.random().toString(36).substr(2,9),
+        timestamp: userMsg.timestamp,
+        text: userMsg.text || '[Photo]',
+        audio: pendingAudio || undefined
+    }]);
+
+    // A reply to the organizer's follow-up goes into that draft rather than becoming a new entry
+    if (chatSettings.organizerEnabled && pendingQuestion && userMsg.text && await answerDraftQuestion(pendingQuestion, userMsg.text, controller.signal)) {
+        setIsProcessing(false);
+        abortControllerRef.current = null;
+        return;
+    }
 
-    let chatResponse = "";
     if (chatSettings.chatEnabled) {
-         chatResponse = await chatWithGemini(relevantHistory, userMsg.text, controller.signal) || "...";
+         await streamChatReply(messages, userMsg.text, attachedImage?.data, uniqueTimestamp(), controller.signal);
          if (controller.signal.aborted) {
              setIsProcessing(false);
              return;
          }
-         setMessages(prev => [...prev, { role: 'model', text: chatResponse, timestamp: Date.now() }]);
     }
 
     if (chatSettings.organizerEnabled) {
         const today = formatDate(new Date());
-        const structuredData = await organizeInput(userMsg.text, today);
+        const structuredData = await organizeInput(userMsg.text, today, attachedImage?.data);
         
         if (structuredData && structuredData.length > 0) {
-            const newEntries: Entry[] = structuredData.map((d: any) => ({
-                id: Math.random().toString(36).substr(2, 9),
-                date: d.date || today,
-                category: d.category,
-                event: d.event,
-                details: d?.details || {}
-            }));
-            
-            setEntries(prev => [...prev, ...newEntries]);
+            const results = structuredData.map((d: any) => assessOrganizedEntry(userMsg.imageId ? { ...d, imageId: userMsg.imageId } : d, customSchemas, categoryMeta, today, userMsg.text));
+            const newEntries = results.filter(r => !isDraftEntry(r)).map(r => r.entry);
+            const needsReview = results.filter(isDraftEntry);
             
-            const entryIds = newEntries.map(e => e.id);
-            setMessages(prev => [...prev, { 
-                role: 'system', 
-                text: `Saved: ${newEntries.map(e => `[${e.date}] ${e.event}`).join(', ')}`, 
-                timestamp: Date.now(),
-                relatedEntryIds: entryIds
-            }]);
+            if (newEntries.length > 0) {
+                setEntries(prev => [...prev, ...newEntries]);
+                
+                const entryIds = newEntries.map(e => e.id);
+                setMessages(prev => [...prev, { 
+                    role: 'system', 
+                    text: `Saved: ${newEntries.map(e => `[${e.date}] ${e.event}`).join(', ')}`, 
+                    timestamp: uniqueTimestamp(),
+                    relatedEntryIds: entryIds
+                }]);
+            }
+            if (needsReview.length > 0) {
+                setMessages(prev => [...prev, {
+                    role: 'system',
+                    text: `Needs review: ${needsReview.map(r => `[${r.entry.date}] ${r.entry.event}`).join(', ')}`,
+                    timestamp: uniqueTimestamp(),
+                    reviewEntries: needsReview
+                }]);
+                // One question at a time; the other drafts show theirs on their cards
+                const asking = needsReview.find(r => r.question);
+                if (asking) {
+                    setMessages(prev => [...prev, { role: 'model', text: asking.question!, timestamp: uniqueTimestamp(), draftEntryId: asking.entry.id }]);
+                }
+            }
         }
     }
     setIsProcessing(false);
     abortControllerRef.current = null;
   };
 
+  // False when the reply turned out not to be an answer, so the caller handles it as a normal message.
+  // A stopped request counts as handled: the draft stays as it was and nothing else runs.
+  const answerDraftQuestion = async (pending: NonNullable<ReturnType<typeof findPendingDraftQuestion>>, answer: string, signal: AbortSignal): Promise<boolean> => {
+      const draft = pending.item.entry;
+      const merged = await mergeDraftAnswer(draft, pending.question, answer, signal);
+      if (signal.aborted) return true;
+      if (!merged?.answered) return false;
+
+      const result = assessOrganizedEntry(
+          { ...draft, ...merged, id: draft.id, category: draft.category, details: { ...draft.details, ...merged.details } },
+          customSchemas, categoryMeta, draft.date
+      );
+      if (!isDraftEntry(result)) {
+          setEntries(prev => [...prev, result.entry]);
+          setMessages(prev => [...prev.map((m, i) => i === pending.msgIndex ? { ...m, reviewEntries: m.reviewEntries?.filter(r => r.entry.id !== draft.id) } : m), {
+              role: 'system',
+              text: `Saved: [${result.entry.date}] ${result.entry.event}`,
+              timestamp: uniqueTimestamp(),
+              relatedEntryIds: [result.entry.id]
+          }]);
+          return true;
+      }
+
+      setMessages(prev => {
+          const next = prev.map((m, i) => i === pending.msgIndex ? { ...m, reviewEntries: m.reviewEntries?.map(r => r.entry.id === draft.id ? result : r) } : m);
+          return result.question ? [...next, { role: 'model', text: result.question, timestamp: uniqueTimestamp(), draftEntryId: draft.id }] : next;
+      });
+      return true;
+  };
+
+  // Push-to-talk: record while the mic button is held, then put the transcript in the input for review
+  const startVoiceInput = async () => {
+      if (voiceState !== 'idle') return;
+      isTalkHeldRef.current = true;
+      let stream: MediaStream;
+      try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (e: any) {
+          isTalkHeldRef.current = false;
+          alert(`Microphone unavailable: ${e.message}`);
+          return;
+      }
+      const mimeType = pickRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+      recorder.onstop = async () => {
+          stream.getTracks().forEach(t => t.stop());
+          recorderRef.current = null;
+          if (chunks.length === 0) {
+              setVoiceState('idle');
+              return;
+          }
+          setVoiceState('transcribing');
+          try {
+              // Gemini wants the bare container type, without the codecs parameter
+              const clip: AudioClip = { mimeType: recorder.mimeType.split(';')[0], data: await blobToBase64(new Blob(chunks, { type: recorder.mimeType })) };
+              const transcript = await transcribeAudio(clip);
+              if (!transcript) return;
+              setInputText(prev => prev.trim() ? `${prev.trim()} ${transcript}` : transcript);
+              if (keepVoiceRecordingsRef.current) setPendingAudio(clip);
+          } catch (e: any) {
+              alert(`Transcription failed: ${e.message}`);
+          } finally {
+              setVoiceState('idle');
+          }
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setVoiceState('recording');
+      // Released before the microphone came up
+      if (!isTalkHeldRef.current) recorder.stop();
+  };
+
+  const stopVoiceInput = () => {
+      isTalkHeldRef.current = false;
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
   const handleStop = () => {
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
@@ -1371,24 +4662,62 @@ User Input: "${text}"
       }));
   };
 
+  // Review queue: organizer output that failed validation lives on its system message until fixed or discarded
+  const findReviewMessageIndex = (entryId: string) => messages.findIndex(m => m.reviewEntries?.some(r => r.entry.id === entryId));
+
+  const handleDiscardReview = (msgIndex: number, entryId: string) => {
+      setMessages(prev => prev.map((m, i) => i === msgIndex ? { ...m, reviewEntries: m.reviewEntries?.filter(r => r.entry.id !== entryId) } : m));
+  };
+
+  // Moves a review item into entries; its system message keeps the id so Undo still works
+  const commitReviewEntry = (msgIndex: number, entry: Entry) => {
+      setMessages(prev => prev.map((m, i) => i !== msgIndex ? m : {
+          ...m,
+          reviewEntries: m.reviewEntries?.filter(r => r.entry.id !== entry.id),
+          relatedEntryIds: [...(m.relatedEntryIds || []), entry.id]
+      }));
+      setEntries(prev => [...prev, entry]);
+  };
+
+  // Accepts a draft as-is; only offered for drafts that pass validation
+  const handleConfirmReview = (msgIndex: number, item: EntryValidation) => {
+      if (item.issues.length > 0) return;
+      commitReviewEntry(msgIndex, item.entry);
+  };
+
+  const handleSaveEditingEntry = () => {
+      if (!editingEntry) return;
+      const reviewMsgIndex = findReviewMessageIndex(editingEntry.id);
+      if (reviewMsgIndex === -1) {
+          const { details, errors } = checkEntryFields(editingEntry, customSchemas[editingEntry.category] || []);
+          if (Object.keys(errors).length > 0) return;
+          const saved = { ...editingEntry, details };
+          setEntries(prev => prev.map(e => e.id === editingEntry.id ? saved : e));
+          setEditingEntry(null);
+          return;
+      }
+
+      const result = validateOrganizedEntry(editingEntry, customSchemas, categoryMeta, formatDate(new Date()));
+      if (result.issues.length > 0) {
+          setMessages(prev => prev.map((m, i) => i === reviewMsgIndex
+              ? { ...m, reviewEntries: m.reviewEntries?.map(r => r.entry.id === editingEntry.id ? result : r) }
+              : m));
+          setEditingEntry(result.entry);
+          return;
+      }
+      commitReviewEntry(reviewMsgIndex, result.entry);
+      setEditingEntry(null);
+  };
+
   const handleRegenerateChat = async (msgIndex: number) => {
-      const prevMsgs = messages.slice(0, msgIndex);
-      const userMsg = prevMsgs.filter(m => m.role === 'user').pop();
-      if (!userMsg) return;
+      const userIdx = messages.slice(0, msgIndex).map(m => m.role).lastIndexOf('user');
+      if (userIdx === -1) return;
+      const userMsg = messages[userIdx];
 
       setIsProcessing(true);
       const controller = new AbortController();
       abortControllerRef.current = controller;
-      const history = getFilteredHistory().filter(m => m.timestamp < messages[msgIndex].timestamp);
-      const newResponse = await chatWithGemini(history, userMsg.text, controller.signal, true);
-      
-      if (!controller.signal.aborted) {
-        setMessages(prev => {
-            const next = [...prev];
-            next[msgIndex] = { ...next[msgIndex], text: newResponse || "..." };
-            return next;
-        });
-      }
+      await streamChatReply(messages.slice(0, userIdx), userMsg.text, imageOf(userMsg.imageId), messages[msgIndex].timestamp, controller.signal);
       setIsProcessing(false);
   };
   
@@ -1401,26 +4730,7 @@ User Input: "${text}"
       const controller = new AbortController();
       abortControllerRef.current = controller;
       setIsProcessing(true);
-      let history = nextMessages.filter(m => m.role === 'user');
-      const now = new Date();
-      if (chatSettings.contextMode === 'today') {
-          history = history.filter(m => isSameDay(new Date(m.timestamp), now));
-      } else if (chatSettings.contextMode === 'week') {
-          const { start, end } = getRollingWeekRange(now);
-          history = history.filter(m => m.timestamp >= start.getTime() && m.timestamp <= end.getTime());
-      } else if (chatSettings.contextMode === 'custom') {
-          const s = new Date(chatSettings.customStartDate).getTime();
-          const e = new Date(chatSettings.customEndDate).getTime() + 86400000;
-          history = history.filter(m => m.timestamp >= s && m.timestamp <= e);
-      }
-      if (chatSettings.contextRounds < 9999) {
-          history = history.slice(-chatSettings.contextRounds);
-      }
-      const response = await chatWithGemini(history, "", controller.signal, true);
-      
-      if (!controller.signal.aborted) {
-          setMessages(prev => [...prev, { role: 'model', text: response, timestamp: Date.now() }]);
-      }
+      await streamChatReply(nextMessages.slice(0, index), newText, imageOf(nextMessages[index].imageId), uniqueTimestamp(), controller.signal);
       setIsProcessing(false);
   };
 
@@ -1437,6 +4747,15 @@ User Input: "${text}"
       setEditingMsgIndex(null);
   };
 
+  const attachImage = async (file: File | null | undefined, onLoaded: (image: string) => void) => {
+      if (!file) return;
+      try {
+          onLoaded(await resizeImageToJpeg(file));
+      } catch (e: any) {
+          alert(`Could not attach image: ${e.message}`);
+      }
+  };
+
   const renderEditModal = () => {
       if (!editingEntry) return null;
       const schema = customSchemas[editingEntry.category];
@@ -1452,9 +4771,27 @@ User Input: "${text}"
           setEditingEntry(null);
       };
 
+      const reviewMsgIndex = findReviewMessageIndex(editingEntry.id);
+      const reviewIssues = reviewMsgIndex === -1 ? [] : messages[reviewMsgIndex].reviewEntries!.find(r => r.entry.id === editingEntry.id)!.issues;
+      const fieldErrors = checkEntryFields(editingEntry, schema || []).errors;
+      const hasErrors = Object.keys(fieldErrors).length > 0;
+
+      const attachEntryImage = (image: string) => {
+          const stored = createStoredImage(image);
+          setImages(prev => [...prev, stored]);
+          setEditingEntry(prev => prev && { ...prev, imageId: stored.id });
+      };
+
+      const handlePaste = (e: React.ClipboardEvent) => {
+          const file = imageFromClipboard(e.clipboardData);
+          if (!file) return;
+          e.preventDefault();
+          attachImage(file, attachEntryImage);
+      };
+
       return (
           <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-md m-4 p-6 shadow-2xl animate-fade-in max-h-[90vh] overflow-y-auto">
+              <div onPaste={handlePaste} className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-md m-4 p-6 shadow-2xl animate-fade-in max-h-[90vh] overflow-y-auto">
                   <div className="flex justify-between items-center mb-6">
                       <div className="flex items-center gap-3">
                            <div className={`p-2 rounded-lg ${categoryMeta[editingEntry.category]?.color || 'bg-gray-600'}`}>
@@ -1465,6 +4802,13 @@ User Input: "${text}"
                       <button onClick={handleClose}><Icons.X className="w-5 h-5 text-gray-500 hover:text-white" /></button>
                   </div>
                   
+                  {reviewIssues.length > 0 && (
+                      <div className="mb-4 bg-orange-900/20 border border-orange-700/40 rounded-lg p-3 text-xs text-orange-300 space-y-1">
+                          <div className="flex items-center gap-1 font-bold"><Icons.AlertTriangle className="w-3 h-3" /> Needs review</div>
+                          {reviewIssues.map((issue, i) => <div key={i}>• {issue}</div>)}
+                      </div>
+                  )}
+
                   <div className="space-y-4">
                       <div>
                           <label className="block text-xs text-gray-500 uppercase mb-1">Date</label>
@@ -1479,86 +4823,866 @@ User Input: "${text}"
                                   onChange={e => setEditingEntry({...editingEntry, event: e.target.value})}
                                   className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                               >
-                                  {['早餐', '午餐', '晚餐', '夜宵', '零食'].map(opt => (
-                                      <option key={opt} value={opt}>{opt}</option>
+                                  {['早餐', '午餐', '晚餐', '夜宵', '零食'].map(opt => (
+                                      <option key={opt} value={opt}>{opt}</option>
+                                  ))}
+                              </select>
+                          ) : (
+                              <input type="text" value={editingEntry.event} onChange={e => setEditingEntry({...editingEntry, event: e.target.value})} 
+                                     className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none" />
+                          )}
+                      </div>
+                      
+                      <div>
+                          <label className="block text-xs text-gray-500 uppercase mb-1">Category</label>
+                          <select 
+                              value={editingEntry.category} 
+                              onChange={e => setEditingEntry({...editingEntry, category: e.target.value})}
+                              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                          >
+                              {Object.entries(categoryMeta).sort((a,b) => a[1].label.localeCompare(b[1].label, 'zh-CN')).map(([key, meta]) => (
+                                  <option key={key} value={key}>{meta.label}</option>
+                              ))}
+                          </select>
+                      </div>
+
+                      <div>
+                          <label className="block text-xs text-gray-500 uppercase mb-1">Photo</label>
+                          {imageOf(editingEntry.imageId) && (
+                              <div className="relative inline-block mb-2">
+                                  <img src={imageSrc(imageOf(editingEntry.imageId)!)} onClick={() => setLightboxImage(imageOf(editingEntry.imageId)!)} className="max-h-40 rounded border border-gray-700 cursor-zoom-in" />
+                                  <button onClick={() => setEditingEntry({ ...editingEntry, imageId: undefined })} className="absolute top-1 right-1 p-1 rounded-full bg-black/70 text-gray-300 hover:text-red-300">
+                                      <Icons.X className="w-3 h-3" />
+                                  </button>
+                              </div>
+                          )}
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                              <button onClick={() => entryImageInputRef.current?.click()} className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 hover:bg-gray-700">
+                                  <Icons.ImagePlus className="w-3 h-3" /> {editingEntry.imageId ? 'Replace' : 'Upload'}
+                              </button>
+                              <span>or paste an image</span>
+                              <input
+                                ref={entryImageInputRef}
+                                type="file"
+                                accept="image/*"
+                                className="hidden"
+                                onChange={e => {
+                                    attachImage(e.target.files?.[0], attachEntryImage);
+                                    e.target.value = '';
+                                }}
+                              />
+                          </div>
+                      </div>
+
+                      <div className="h-px bg-gray-800 my-4" />
+                      
+                      <div className="space-y-4">
+                          {schema ? schema.map(field => (
+                              <div key={field.key}>
+                                  <label className="block text-xs text-gray-500 uppercase mb-1 flex items-center gap-1">
+                                    {field.label}
+                                    {field.required && <span className="text-red-500">*</span>}
+                                  </label>
+                                  {field.type === 'select' && !field.allowCustomOption && (
+                                      <select 
+                                        value={editingEntry.details[field.key] || ''} 
+                                        onChange={e => updateDetail(field.key, e.target.value)}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                      >
+                                          <option value="">Select...</option>
+                                          {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
+                                      </select>
+                                  )}
+                                  {field.type === 'select' && field.allowCustomOption && (
+                                      <>
+                                          <input 
+                                            list={`options-${field.key}`}
+                                            value={editingEntry.details[field.key] || ''}
+                                            onChange={e => updateDetail(field.key, e.target.value)}
+                                            className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                            placeholder={field.placeholder || 'Pick or type...'}
+                                          />
+                                          <datalist id={`options-${field.key}`}>
+                                              {field.options?.map(o => <option key={o} value={o} />)}
+                                          </datalist>
+                                      </>
+                                  )}
+                                  {field.type === 'multiselect' && (
+                                      <div className="flex flex-wrap gap-2">
+                                          {Array.from(new Set([...(field.options || []), ...(field.allowCustomOption ? editingEntry.details[field.key] || [] : [])])).map((o: string) => {
+                                              const selected = (editingEntry.details[field.key] || []).includes(o);
+                                              return (
+                                                  <button key={o} onClick={() => {
+                                                      const curr = editingEntry.details[field.key] || [];
+                                                      const next = selected ? curr.filter((x:string) => x!==o) : [...curr, o];
+                                                      updateDetail(field.key, next);
+                                                  }} className={`px-2 py-1 rounded text-xs border ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}>
+                                                      {o}
+                                                  </button>
+                                              );
+                                          })}
+                                          {field.allowCustomOption && (
+                                              <input 
+                                                placeholder="+ Add"
+                                                onKeyDown={e => {
+                                                    const value = e.currentTarget.value.trim();
+                                                    if (e.key !== 'Enter' || !value) return;
+                                                    const curr = editingEntry.details[field.key] || [];
+                                                    if (!curr.includes(value)) updateDetail(field.key, [...curr, value]);
+                                                    e.currentTarget.value = '';
+                                                }}
+                                                className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
+                                              />
+                                          )}
+                                      </div>
+                                  )}
+                                  {(field.type === 'text' || field.type === 'number' || field.type === 'rating') && (
+                                      <input 
+                                        type={field.type === 'number' || field.type === 'rating' ? 'number' : 'text'}
+                                        value={editingEntry.details[field.key] ?? ''}
+                                        onChange={e => updateDetail(field.key, field.type === 'text' ? e.target.value : e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                                        min={field.min}
+                                        max={field.max}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                        placeholder={field.placeholder || (field.unit ? `Unit: ${field.unit}` : '')}
+                                      />
+                                  )}
+                                  {(field.type === 'date' || field.type === 'time') && (
+                                      <input 
+                                        type={field.type}
+                                        value={editingEntry.details[field.key] || ''}
+                                        onChange={e => updateDetail(field.key, e.target.value)}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                      />
+                                  )}
+                                  {field.type === 'duration' && (() => {
+                                      const raw = editingEntry.details[field.key];
+                                      const minutes = parseDurationMinutes(raw);
+                                      return (
+                                          <div className="flex items-center gap-2">
+                                              <input 
+                                                type="text"
+                                                value={typeof raw === 'number' ? formatDuration(raw) : raw || ''}
+                                                onChange={e => updateDetail(field.key, e.target.value)}
+                                                className="flex-1 bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                                placeholder={field.placeholder || '例如: 1小时30分钟 / 45 min'}
+                                              />
+                                              {!isEmptyValue(raw) && (
+                                                  <span className={`text-xs font-mono whitespace-nowrap ${minutes === null ? 'text-red-400' : 'text-gray-500'}`}>
+                                                      {minutes === null ? 'unparsed' : `${minutes} min`}
+                                                  </span>
+                                              )}
+                                          </div>
+                                      );
+                                  })()}
+                                  {field.type === 'boolean' && (
+                                      <div className="flex gap-2">
+                                          {[true, false].map(flag => (
+                                              <button key={String(flag)} onClick={() => updateDetail(field.key, editingEntry.details[field.key] === flag ? undefined : flag)} className={`px-3 py-1 rounded text-xs border ${editingEntry.details[field.key] === flag ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}>
+                                                  {flag ? '是' : '否'}
+                                              </button>
+                                          ))}
+                                      </div>
+                                  )}
+                                  {field.type === 'money' && (() => {
+                                      const money = editingEntry.details[field.key];
+                                      const currency = isMoneyValue(money) ? money.currency : field.unit || 'CNY';
+                                      return (
+                                          <div className="flex gap-2">
+                                              <input 
+                                                type="number"
+                                                value={isMoneyValue(money) ? money.amount : ''}
+                                                onChange={e => updateDetail(field.key, e.target.value === '' ? undefined : { amount: parseFloat(e.target.value), currency })}
+                                                className="flex-1 bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                              />
+                                              <input 
+                                                value={currency}
+                                                onChange={e => updateDetail(field.key, { amount: isMoneyValue(money) ? money.amount : 0, currency: e.target.value.toUpperCase() })}
+                                                className="w-20 bg-gray-800 border border-gray-700 rounded p-2 text-sm font-mono uppercase"
+                                                maxLength={3}
+                                              />
+                                          </div>
+                                      );
+                                  })()}
+                                  {field.type === 'reference' && (() => {
+                                      const candidates = entries
+                                          .filter(e => e.id !== editingEntry.id && (!field.refCategory || e.category === field.refCategory))
+                                          .sort((a, b) => b.date.localeCompare(a.date))
+                                          .slice(0, 200);
+                                      const current = entries.find(e => e.id === editingEntry.details[field.key]);
+                                      if (current && !candidates.includes(current)) candidates.unshift(current);
+                                      return (
+                                          <select 
+                                            value={editingEntry.details[field.key] || ''} 
+                                            onChange={e => updateDetail(field.key, e.target.value || undefined)}
+                                            className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                                          >
+                                              <option value="">No link</option>
+                                              {candidates.map(e => (
+                                                  <option key={e.id} value={e.id}>{e.date} · {categoryMeta[e.category]?.label || e.category} · {e.event}</option>
+                                              ))}
+                                          </select>
+                                      );
+                                  })()}
+                                  {field.type === 'computed' && (() => {
+                                      const value = computeFields(editingEntry.details, schema)[field.key];
+                                      return (
+                                          <div className="w-full bg-gray-900 border border-gray-800 rounded p-2 text-sm font-mono text-gray-400" title={field.formula}>
+                                              {value === undefined ? '—' : formatFieldValue(field, value)}
+                                              <span className="ml-2 text-[10px] text-gray-600">= {field.formula || 'no formula'}</span>
+                                          </div>
+                                      );
+                                  })()}
+                                  {fieldErrors[field.key] && <div className="mt-1 text-[10px] text-red-400">{fieldErrors[field.key]}</div>}
+                              </div>
+                          )) : (
+                              <div className="text-gray-500 text-xs">No specific fields configured.</div>
+                          )}
+                      </div>
+                  </div>
+
+                  <div className="mt-6 flex justify-end gap-3">
+                      <button onClick={handleClose} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                      <button onClick={handleSaveEditingEntry} disabled={hasErrors} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20 disabled:opacity-40 disabled:cursor-not-allowed">
+                          {reviewMsgIndex === -1 ? 'Save Changes' : 'Confirm Entry'}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  const getCurrentData = (): LifeOSData => ({
+      entries, messages, rawLogs, images, aiConfig, chatSettings, customSchemas, groups, categoryMeta, loggerWatermark, financeBudgets, currencySettings
+  });
+
+  const handleExportBackup = () => {
+      const bundle = createBackupBundle(getCurrentData());
+      downloadFile(JSON.stringify(bundle, null, 2), `lifeos-backup-${formatDate(new Date())}.json`, 'application/json');
+  };
+
+  const handleImportFile = async (file: File) => {
+      try {
+          const parsed = parseBackupBundle(await file.text());
+          const bundle = { ...parsed, dataVersion: DATA_VERSION, data: migrateBackupData(parsed, getCurrentData()) as LifeOSData };
+          setPendingImport({ bundle, fileName: file.name, mode: 'merge' });
+      } catch (e: any) {
+          alert(`Import failed: ${e.message}`);
+      }
+  };
+
+  const handleCommitImport = () => {
+      if (!pendingImport) return;
+      const current = getCurrentData();
+      const { data: next, held } = screenImportedEntries(current, applyBackupData(current, pendingImport.bundle.data, pendingImport.mode));
+      setEntries(next.entries);
+      setMessages(held.length === 0 ? next.messages : [...next.messages, {
+          role: 'system',
+          text: `Needs review (import): ${held.map(r => `[${r.entry.date}] ${r.entry.event}`).join(', ')}`,
+          timestamp: uniqueTimestamp(),
+          reviewEntries: held
+      }]);
+      setRawLogs(next.rawLogs);
+      setImages(next.images);
+      setAiConfig(next.aiConfig);
+      setChatSettings(next.chatSettings);
+      setCustomSchemas(next.customSchemas);
+      setGroups(next.groups);
+      setCategoryMeta(next.categoryMeta);
+      setLoggerWatermark(next.loggerWatermark);
+      setFinanceBudgets(next.financeBudgets);
+      setCurrencySettings(next.currencySettings);
+      setPendingImport(null);
+  };
+
+  const handleTestModel = async (pipeline: ModelPipeline) => {
+      const instructions: Partial<Record<ModelPipeline, string>> = {
+          chat: aiConfig.chatInstructions,
+          organizer: aiConfig.organizerInstructions,
+          classifier: buildPreclassifyInstructions(categoryMeta),
+          logger: aiConfig.loggerInstructions,
+          report: REPORT_NARRATIVE_INSTRUCTIONS
+      };
+      setModelTests(prev => ({ ...prev, [pipeline]: 'running' }));
+      const started = performance.now();
+      let result: ModelTestResult;
+      try {
+          result = await runModelTest(pipeline, aiConfig.models[pipeline], instructions[pipeline]);
+      } catch (e: any) {
+          result = { latencyMs: Math.round(performance.now() - started), output: '', error: e.message };
+      }
+      setModelTests(prev => ({ ...prev, [pipeline]: result }));
+  };
+
+  const renderModelSection = () => {
+      const updateProfile = (pipeline: ModelPipeline, patch: Partial<ModelProfile>) => setAiConfig(prev => ({
+          ...prev,
+          models: { ...prev.models, [pipeline]: { ...prev.models[pipeline], ...patch } }
+      }));
+      // Blank inputs mean "model default"
+      const parseOptional = (value: string) => value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
+      const inputClass = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500 font-mono";
+
+      return (
+          <div className="space-y-4">
+              <div>
+                  <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2"><Icons.Cpu className="w-5 h-5 text-cyan-400" /> Models</h3>
+                  <p className="text-xs text-gray-500 mt-1">Each pipeline runs on its own model profile. Leave a parameter blank to use the model's default.</p>
+              </div>
+              <datalist id="known-models">
+                  {KNOWN_MODELS.map(m => <option key={m} value={m} />)}
+              </datalist>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {MODEL_PIPELINES.map(({ id, label, hint }) => {
+                      const profile = aiConfig.models[id];
+                      const test = modelTests[id];
+                      return (
+                          <div key={id} className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-3">
+                              <div className="flex justify-between items-start">
+                                  <div>
+                                      <div className="text-sm font-bold text-gray-200">{label}</div>
+                                      <div className="text-[10px] text-gray-500">{hint}</div>
+                                  </div>
+                                  <button
+                                    onClick={() => handleTestModel(id)}
+                                    disabled={test === 'running'}
+                                    className="flex items-center gap-1 text-xs bg-cyan-700 hover:bg-cyan-600 text-white px-2 py-1 rounded disabled:opacity-40"
+                                  >
+                                      {test === 'running' ? <Icons.Loader2 className="w-3 h-3 animate-spin" /> : <Icons.Play className="w-3 h-3" />}
+                                      Test
+                                  </button>
+                              </div>
+                              <label className="block text-[10px] text-gray-500 uppercase">
+                                  Model
+                                  <input list="known-models" value={profile.model} onChange={e => updateProfile(id, { model: e.target.value.trim() })} onBlur={() => { if (!profile.model) updateProfile(id, { model: DEFAULT_MODEL_PROFILES[id].model }); }} className={`${inputClass} mt-1`} />
+                              </label>
+                              <div className="grid grid-cols-2 gap-2">
+                                  <label className="block text-[10px] text-gray-500 uppercase">
+                                      Temperature
+                                      <input type="number" min="0" max="2" step="0.1" value={profile.temperature ?? ''} placeholder="default" onChange={e => updateProfile(id, { temperature: parseOptional(e.target.value) })} className={`${inputClass} mt-1`} />
+                                  </label>
+                                  <label className="block text-[10px] text-gray-500 uppercase">
+                                      Max output tokens
+                                      <input type="number" min="1" value={profile.maxOutputTokens ?? ''} placeholder="default" onChange={e => updateProfile(id, { maxOutputTokens: parseOptional(e.target.value) })} className={`${inputClass} mt-1`} />
+                                  </label>
+                                  <label className="block text-[10px] text-gray-500 uppercase">
+                                      Thinking budget
+                                      <input type="number" min="-1" value={profile.thinkingBudget ?? ''} placeholder="default" title="Gemini 2.5: 0 turns thinking off, -1 lets the model decide" onChange={e => updateProfile(id, { thinkingBudget: parseOptional(e.target.value) })} className={`${inputClass} mt-1`} />
+                                  </label>
+                                  <label className="block text-[10px] text-gray-500 uppercase">
+                                      Thinking level
+                                      <select value={profile.thinkingLevel ?? ''} title="Gemini 3 models" onChange={e => updateProfile(id, { thinkingLevel: (e.target.value || null) as ThinkingLevel | null })} className={`${inputClass} mt-1`}>
+                                          <option value="">default</option>
+                                          {[ThinkingLevel.LOW, ThinkingLevel.HIGH].map(level => <option key={level} value={level}>{level.toLowerCase()}</option>)}
+                                      </select>
+                                  </label>
+                              </div>
+                              {test && test !== 'running' && (
+                                  <div className={`text-xs rounded-lg p-2 border ${test.error ? 'bg-red-900/20 border-red-800/50 text-red-300' : 'bg-gray-800/60 border-gray-700 text-gray-300'}`}>
+                                      <div className="font-mono text-[10px] text-gray-500 mb-1">{test.latencyMs} ms</div>
+                                      <div className="whitespace-pre-wrap line-clamp-6">{test.error || test.output}</div>
+                                  </div>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+          </div>
+      );
+  };
+
+  const renderCurrencySection = () => {
+      const { baseCurrency, exchangeRates } = currencySettings;
+      const currencyField = (customSchemas[FINANCE_CATEGORY] || []).find(f => f.key === 'currency');
+      const currencies = Array.from(new Set([baseCurrency, ...(currencyField?.options || []), ...exchangeRates.flatMap(r => [r.from, r.to])]));
+      const updateRate = (id: string, patch: Partial<ExchangeRate>) => setCurrencySettings(prev => ({
+          ...prev,
+          exchangeRates: prev.exchangeRates.map(r => r.id === id ? { ...r, ...patch } : r)
+      }));
+      const addRate = () => setCurrencySettings(prev => ({
+          ...prev,
+          exchangeRates: [...prev.exchangeRates, {
+              id: Math.random().toString(36).substr(2, 9),
+              date: formatDate(new Date()),
+              from: currencies.find(c => c !== prev.baseCurrency) || '',
+              to: prev.baseCurrency,
+              rate: 1
+          }]
+      }));
+      const sortedRates = [...exchangeRates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+      const selectClass = "bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-emerald-500";
+
+      return (
+          <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                  <div>
+                      <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2"><Icons.Coins className="w-5 h-5 text-emerald-400" /> Currencies</h3>
+                      <p className="text-xs text-gray-500 mt-1">Finance totals and budgets are converted to the base currency with the rate in effect on each entry's date.</p>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                      Base currency
+                      <select value={baseCurrency} onChange={e => setCurrencySettings(prev => ({ ...prev, baseCurrency: e.target.value }))} className={selectClass}>
+                          {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                  </label>
+              </div>
+
+              <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-2">
+                  {sortedRates.length === 0 ? (
+                      <div className="text-xs text-gray-600 italic">No exchange rates yet. Entries in other currencies are left out of finance totals.</div>
+                  ) : sortedRates.map(r => (
+                      <div key={r.id} className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                          <input type="date" value={r.date} onChange={e => updateRate(r.id, { date: e.target.value })} className={selectClass} />
+                          <span>1</span>
+                          <select value={r.from} onChange={e => updateRate(r.id, { from: e.target.value })} className={selectClass}>
+                              {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                          <span>=</span>
+                          <input 
+                              type="number"
+                              min={0}
+                              step="any"
+                              value={r.rate}
+                              onChange={e => updateRate(r.id, { rate: parseFloat(e.target.value) || 0 })}
+                              className={`${selectClass} w-28 font-mono text-right`}
+                          />
+                          <select value={r.to} onChange={e => updateRate(r.id, { to: e.target.value })} className={selectClass}>
+                              {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                          <button 
+                              onClick={() => setCurrencySettings(prev => ({ ...prev, exchangeRates: prev.exchangeRates.filter(x => x.id !== r.id) }))}
+                              className="p-1 text-gray-600 hover:text-red-400"
+                          >
+                              <Icons.Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+                  ))}
+                  <button onClick={addRate} className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 pt-1">
+                      <Icons.Plus className="w-3.5 h-3.5" /> Add Rate
+                  </button>
+              </div>
+          </div>
+      );
+  };
+
+  const renderBackupSection = () => {
+      const current = getCurrentData();
+      const screened = pendingImport ? screenImportedEntries(current, applyBackupData(current, pendingImport.bundle.data, pendingImport.mode)) : null;
+      const preview = screened?.data || null;
+      const before = countByCategory(current.entries);
+      const after = preview ? countByCategory(preview.entries) : {};
+      const diffCategories = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+          .sort((a, b) => (after[b] || 0) - (after[a] || 0));
+      const labelOf = (cat: string) => preview?.categoryMeta[cat]?.label || categoryMeta[cat]?.label || cat;
+
+      const renderCountRow = (label: string, from: number, to: number, key?: string) => {
+          const delta = to - from;
+          return (
+              <tr key={key || label} className="border-t border-gray-800/60">
+                  <td className="py-1 pr-4 text-gray-300">{label}</td>
+                  <td className="py-1 pr-4 text-right font-mono text-gray-500">{from}</td>
+                  <td className="py-1 pr-4 text-right font-mono text-gray-200">{to}</td>
+                  <td className={`py-1 text-right font-mono ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-600'}`}>
+                      {delta > 0 ? `+${delta}` : delta}
+                  </td>
+              </tr>
+          );
+      };
+
+      return (
+          <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                  <div>
+                      <h3 className="text-lg font-bold text-gray-200 flex items-center gap-2"><Icons.Archive className="w-5 h-5 text-teal-400" /> Backup & Restore</h3>
+                      <p className="text-xs text-gray-500 mt-1">Export all entries, chats, logs and configuration as one JSON file (format v{BACKUP_VERSION}).</p>
+                  </div>
+                  <div className="flex gap-2">
+                      <button onClick={handleExportBackup} className="flex items-center gap-2 bg-teal-700 hover:bg-teal-600 text-white px-4 py-2 rounded text-sm">
+                          <Icons.Download className="w-4 h-4" /> Export
+                      </button>
+                      <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-200 px-4 py-2 rounded text-sm border border-gray-700">
+                          <Icons.Upload className="w-4 h-4" /> Import
+                      </button>
+                      <input 
+                          ref={importInputRef}
+                          type="file"
+                          accept="application/json,.json"
+                          className="hidden"
+                          onChange={e => {
+                              const file = e.target.files?.[0];
+                              if (file) handleImportFile(file);
+                              e.target.value = '';
+                          }}
+                      />
+                  </div>
+              </div>
+
+              {pendingImport && preview && (
+                  <div className="bg-gray-900/50 border border-teal-800/50 rounded-xl p-4 space-y-4 animate-fade-in">
+                      <div className="flex flex-col sm:flex-row justify-between gap-3">
+                          <div className="text-xs text-gray-400">
+                              <div className="font-mono text-gray-200">{pendingImport.fileName}</div>
+                              <div>Exported {new Date(pendingImport.bundle.exportedAt).toLocaleString()} · v{pendingImport.bundle.version}</div>
+                          </div>
+                          <div className="flex bg-gray-800 rounded p-1 gap-1 self-start">
+                              {(['merge', 'replace'] as ImportMode[]).map(m => (
+                                  <button 
+                                    key={m}
+                                    onClick={() => setPendingImport({ ...pendingImport, mode: m })}
+                                    className={`px-3 py-1 text-xs rounded capitalize ${pendingImport.mode === m ? 'bg-teal-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                  >
+                                      {m}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <p className="text-[10px] text-gray-500">
+                          {pendingImport.mode === 'merge' 
+                              ? 'Merge adds new records (deduplicated by id) and keeps your current settings and categories.' 
+                              : 'Replace overwrites all current data and settings with the backup.'}
+                      </p>
+
+                      <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                          <table className="w-full text-xs">
+                              <thead>
+                                  <tr className="text-gray-500 text-[10px] uppercase">
+                                      <th className="text-left py-1 pr-4 font-normal">Section</th>
+                                      <th className="text-right py-1 pr-4 font-normal">Current</th>
+                                      <th className="text-right py-1 pr-4 font-normal">After</th>
+                                      <th className="text-right py-1 font-normal">Diff</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {renderCountRow('Messages', current.messages.length, preview.messages.length)}
+                                  {renderCountRow('Raw Logs', current.rawLogs.length, preview.rawLogs.length)}
+                                  {renderCountRow('Categories', Object.keys(current.categoryMeta).length, Object.keys(preview.categoryMeta).length)}
+                                  {renderCountRow('Entries (total)', current.entries.length, preview.entries.length)}
+                                  {diffCategories.map(cat => renderCountRow(`  ${labelOf(cat)}`, before[cat] || 0, after[cat] || 0, `cat-${cat}`))}
+                              </tbody>
+                          </table>
+                      </div>
+
+                      {screened && screened.held.length > 0 && (
+                          <div className="bg-orange-900/20 border border-orange-700/40 rounded-lg p-3 text-xs text-orange-300 space-y-1">
+                              <div className="flex items-center gap-1 font-bold"><Icons.AlertTriangle className="w-3 h-3" /> {screened.held.length} entr{screened.held.length === 1 ? 'y breaks' : 'ies break'} field rules and will go to the review queue</div>
+                              {screened.held.slice(0, 5).map(r => <div key={r.entry.id}>• [{r.entry.date}] {r.entry.event}: {r.issues.join('; ')}</div>)}
+                              {screened.held.length > 5 && <div className="text-orange-300/60">…and {screened.held.length - 5} more</div>}
+                          </div>
+                      )}
+
+                      <div className="flex justify-end gap-3">
+                          <button onClick={() => setPendingImport(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                          <button 
+                            onClick={() => {
+                                if (pendingImport.mode === 'replace' && !window.confirm("Replace ALL current data with this backup?")) return;
+                                handleCommitImport();
+                            }}
+                            className="px-4 py-2 rounded text-sm bg-teal-600 hover:bg-teal-500 text-white"
+                          >
+                              Import ({pendingImport.mode})
+                          </button>
+                      </div>
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  const handleConfirmCategoryDeletion = () => {
+      if (!categoryDeletion) return;
+      const { key, target, mapping } = categoryDeletion;
+      const moved = new Map(planCategoryMerge(entries, key, target, customSchemas[key] || [], mapping).map(p => [p.before.id, p.after]));
+      setEntries(prev => prev.map(e => moved.get(e.id) || e));
+
+      const newMeta = { ...categoryMeta };
+      delete newMeta[key];
+      setCategoryMeta(newMeta);
+      const newSchemas = { ...customSchemas };
+      delete newSchemas[key];
+      setCustomSchemas(newSchemas);
+      if (editingSchemaCat === key) setEditingSchemaCat(null);
+      setCategoryDeletion(null);
+  };
+
+  const renderCategoryDeletionModal = () => {
+      if (!categoryDeletion) return null;
+      const { key, target, mapping } = categoryDeletion;
+      const fromFields = customSchemas[key] || [];
+      const toFields = (customSchemas[target] || []).filter(f => !STANDARD_FIELD_KEYS.includes(f.key));
+      const plan = planCategoryMerge(entries, key, target, fromFields, mapping);
+      const mappedFields = fromFields.filter(f => f.key in mapping);
+
+      const renderDetailLines = (details: Record<string, any>) => (
+          <div className="space-y-0.5">
+              {Object.entries(details).filter(([, v]) => v !== undefined && v !== '').map(([k, v]) => (
+                  <div key={k} className="truncate"><span className="text-gray-500 mr-1">{k}:</span>{formatDetailValue(v)}</div>
+              ))}
+          </div>
+      );
+
+      return (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-2xl m-4 p-6 shadow-2xl animate-fade-in max-h-[90vh] overflow-y-auto space-y-5">
+                  <div className="flex justify-between items-center">
+                      <h3 className="text-xl font-bold flex items-center gap-2">
+                          <Icons.Trash2 className="w-5 h-5 text-red-400" /> Delete "{categoryMeta[key]?.label}"
+                      </h3>
+                      <button onClick={() => setCategoryDeletion(null)}><Icons.X className="w-5 h-5 text-gray-500 hover:text-white" /></button>
+                  </div>
+
+                  {plan.length === 0 ? (
+                      <p className="text-sm text-gray-400">No entries use this category. Its fields and settings will be removed.</p>
+                  ) : (
+                      <>
+                          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+                              <span><span className="font-bold text-orange-400">{plan.length}</span> entr{plan.length === 1 ? 'y' : 'ies'} will be moved to</span>
+                              <select 
+                                  value={target}
+                                  onChange={e => setCategoryDeletion({
+                                      key,
+                                      target: e.target.value,
+                                      mapping: suggestFieldMapping(fromFields, customSchemas[e.target.value] || [])
+                                  })}
+                                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+                              >
+                                  {Object.entries(categoryMeta).filter(([k]) => k !== key).map(([k, meta]: [string, any]) => (
+                                      <option key={k} value={k}>{meta.label}</option>
                                   ))}
                               </select>
-                          ) : (
-                              <input type="text" value={editingEntry.event} onChange={e => setEditingEntry({...editingEntry, event: e.target.value})} 
-                                     className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none" />
+                          </div>
+
+                          {mappedFields.length > 0 && (
+                              <div className="space-y-2">
+                                  <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Field Mapping</h4>
+                                  {mappedFields.map(f => (
+                                      <div key={f.key} className="grid grid-cols-12 gap-2 items-center text-xs">
+                                          <div className="col-span-5 text-gray-300 truncate">{f.label} <span className="text-gray-600 font-mono">({f.key})</span></div>
+                                          <Icons.ArrowRight className="col-span-1 w-3 h-3 text-gray-600" />
+                                          <select 
+                                              value={mapping[f.key]}
+                                              onChange={e => setCategoryDeletion({ ...categoryDeletion, mapping: { ...mapping, [f.key]: e.target.value } })}
+                                              className="col-span-6 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+                                          >
+                                              <option value="">Append to notes</option>
+                                              {toFields.map(t => <option key={t.key} value={t.key}>{t.label} ({t.key})</option>)}
+                                          </select>
+                                      </div>
+                                  ))}
+                              </div>
                           )}
-                      </div>
-                      
-                      <div>
-                          <label className="block text-xs text-gray-500 uppercase mb-1">Category</label>
-                          <select 
-                              value={editingEntry.category} 
-                              onChange={e => setEditingEntry({...editingEntry, category: e.target.value})}
-                              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
-                          >
-                              {Object.entries(categoryMeta).sort((a,b) => a[1].label.localeCompare(b[1].label, 'zh-CN')).map(([key, meta]) => (
-                                  <option key={key} value={key}>{meta.label}</option>
+
+                          <div className="space-y-2">
+                              <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Preview (dry run)</h4>
+                              {plan.slice(0, 3).map(({ before, after }) => (
+                                  <div key={before.id} className="grid grid-cols-2 gap-2 text-[10px] font-mono bg-gray-800/50 border border-gray-800 rounded p-2">
+                                      <div className="text-gray-400 min-w-0">
+                                          <div className="text-gray-200 mb-1">{before.date} {before.event}</div>
+                                          {renderDetailLines(before.details)}
+                                      </div>
+                                      <div className="text-green-300/80 min-w-0 border-l border-gray-700 pl-2">
+                                          <div className="text-gray-200 mb-1">→ {categoryMeta[target]?.label}</div>
+                                          {renderDetailLines(after.details)}
+                                      </div>
+                                  </div>
                               ))}
-                          </select>
-                      </div>
+                              {plan.length > 3 && <div className="text-[10px] text-gray-600">…and {plan.length - 3} more</div>}
+                          </div>
+                      </>
+                  )}
 
-                      <div className="h-px bg-gray-800 my-4" />
-                      
-                      <div className="space-y-4">
-                          {schema ? schema.map(field => (
-                              <div key={field.key}>
-                                  <label className="block text-xs text-gray-500 uppercase mb-1 flex items-center gap-1">
-                                    {field.label}
-                                    {field.required && <span className="text-red-500">*</span>}
-                                  </label>
-                                  {field.type === 'select' && (
-                                      <select 
-                                        value={editingEntry.details[field.key] || ''} 
-                                        onChange={e => updateDetail(field.key, e.target.value)}
-                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
-                                      >
-                                          <option value="">Select...</option>
-                                          {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
-                                      </select>
-                                  )}
-                                  {field.type === 'multiselect' && (
-                                      <div className="flex flex-wrap gap-2">
-                                          {field.options?.map(o => {
-                                              const selected = (editingEntry.details[field.key] || []).includes(o);
-                                              return (
-                                                  <button key={o} onClick={() => {
-                                                      const curr = editingEntry.details[field.key] || [];
-                                                      const next = selected ? curr.filter((x:string) => x!==o) : [...curr, o];
-                                                      updateDetail(field.key, next);
-                                                  }} className={`px-2 py-1 rounded text-xs border ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}>
-                                                      {o}
-                                                  </button>
-                                              );
-                                          })}
+                  <div className="flex justify-end gap-3">
+                      <button onClick={() => setCategoryDeletion(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                      <button onClick={handleConfirmCategoryDeletion} className="px-4 py-2 rounded text-sm bg-red-700 hover:bg-red-600 text-white">
+                          {plan.length === 0 ? 'Delete Category' : `Move ${plan.length} & Delete`}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  const handleConfirmFieldConversion = () => {
+      if (!fieldConversionCat) return;
+      const converted = new Map(planFieldConversion(entries, fieldConversionCat, customSchemas[fieldConversionCat] || []).map(p => [p.before.id, p.after]));
+      setEntries(prev => prev.map(e => converted.get(e.id) || e));
+      setFieldConversionCat(null);
+  };
+
+  const renderFieldConversionModal = () => {
+      if (!fieldConversionCat) return null;
+      const plan = planFieldConversion(entries, fieldConversionCat, customSchemas[fieldConversionCat] || []);
+      const show = (v: any) => isEmptyValue(v) ? '(empty)' : formatDetailValue(v);
+
+      return (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-2xl m-4 p-6 shadow-2xl animate-fade-in max-h-[90vh] overflow-y-auto space-y-5">
+                  <div className="flex justify-between items-center">
+                      <h3 className="text-xl font-bold flex items-center gap-2">
+                          <Icons.RefreshCw className="w-5 h-5 text-orange-400" /> Convert "{categoryMeta[fieldConversionCat]?.label}" entries
+                      </h3>
+                      <button onClick={() => setFieldConversionCat(null)}><Icons.X className="w-5 h-5 text-gray-500 hover:text-white" /></button>
+                  </div>
+
+                  {plan.length === 0 ? (
+                      <p className="text-sm text-gray-400">All entries already match these fields.</p>
+                  ) : (
+                      <div className="space-y-2">
+                          <p className="text-sm text-gray-300">
+                              <span className="font-bold text-orange-400">{plan.length}</span> entr{plan.length === 1 ? 'y' : 'ies'} will be rewritten. Values that don't parse are kept as typed.
+                          </p>
+                          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Preview (dry run)</h4>
+                          {plan.slice(0, 5).map(({ before, after, changed }) => (
+                              <div key={before.id} className="text-[10px] font-mono bg-gray-800/50 border border-gray-800 rounded p-2">
+                                  <div className="text-gray-200 mb-1">{before.date} {before.event}</div>
+                                  {changed.map(k => (
+                                      <div key={k} className="truncate">
+                                          <span className="text-gray-500 mr-1">{k}:</span>
+                                          <span className="text-gray-400">{show(before.details[k])}</span>
+                                          <span className="text-gray-600 mx-1">→</span>
+                                          <span className="text-green-300/80">{show(after.details[k])}</span>
                                       </div>
-                                  )}
-                                  {(field.type === 'text' || field.type === 'number' || field.type === 'rating') && (
-                                      <input 
-                                        type={field.type === 'number' || field.type === 'rating' ? 'number' : 'text'}
-                                        value={editingEntry.details[field.key] || ''}
-                                        onChange={e => updateDetail(field.key, field.type === 'number' ? parseFloat(e.target.value) : e.target.value)}
-                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
-                                        placeholder={field.placeholder || (field.unit ? `Unit: ${field.unit}` : '')}
-                                      />
-                                  )}
+                                  ))}
                               </div>
-                          )) : (
-                              <div className="text-gray-500 text-xs">No specific fields configured.</div>
-                          )}
+                          ))}
+                          {plan.length > 5 && <div className="text-[10px] text-gray-600">…and {plan.length - 5} more</div>}
                       </div>
+                  )}
+
+                  <div className="flex justify-end gap-3">
+                      <button onClick={() => setFieldConversionCat(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Keep as is</button>
+                      <button onClick={handleConfirmFieldConversion} disabled={plan.length === 0} className="px-4 py-2 rounded text-sm bg-orange-700 hover:bg-orange-600 text-white disabled:opacity-40 disabled:cursor-not-allowed">
+                          Convert {plan.length} entr{plan.length === 1 ? 'y' : 'ies'}
+                      </button>
                   </div>
+              </div>
+          </div>
+      );
+  };
 
-                  <div className="mt-6 flex justify-end gap-3">
-                      <button onClick={handleClose} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
-                      <button onClick={() => {
-                          setEntries(prev => prev.map(e => e.id === editingEntry.id ? editingEntry : e));
-                          setEditingEntry(null);
-                      }} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20">Save Changes</button>
+  const renderGroupDeletionModal = () => {
+      if (!groupDeletion) return null;
+      const cats = Object.entries(categoryMeta).filter(([, m]: [string, any]) => m.group === groupDeletion.id);
+
+      return (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-md m-4 p-6 shadow-2xl animate-fade-in space-y-4">
+                  <h3 className="text-xl font-bold">Delete group "{groups.find(g => g.id === groupDeletion.id)?.label}"</h3>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+                      <span>Move its {cats.length} categor{cats.length === 1 ? 'y' : 'ies'} to</span>
+                      <select 
+                          value={groupDeletion.target}
+                          onChange={e => setGroupDeletion({ ...groupDeletion, target: e.target.value })}
+                          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm"
+                      >
+                          {groups.filter(g => g.id !== groupDeletion.id).map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+                      </select>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                      {cats.map(([k, m]: [string, any]) => <span key={k} className="text-xs bg-gray-800 px-2 py-0.5 rounded">{m.label}</span>)}
+                  </div>
+                  <div className="flex justify-end gap-3">
+                      <button onClick={() => setGroupDeletion(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                      <button 
+                          onClick={() => {
+                              const newMeta = { ...categoryMeta };
+                              cats.forEach(([k]) => { newMeta[k] = { ...newMeta[k], group: groupDeletion.target }; });
+                              setCategoryMeta(newMeta);
+                              setGroups(groups.filter(g => g.id !== groupDeletion.id));
+                              setGroupDeletion(null);
+                          }}
+                          className="px-4 py-2 rounded text-sm bg-red-700 hover:bg-red-600 text-white"
+                      >
+                          Move & Delete
+                      </button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  const openSearchResult = (doc: SearchDoc) => {
+      if (doc.type === 'chat') {
+          setActiveTab('chat');
+          setHighlightedMessage(doc.message!.timestamp);
+      } else {
+          setActiveTab('dashboard');
+          setDashboardPanel(doc.type === 'log' ? 'logs' : 'board');
+          setViewMode('day');
+          setViewDate(new Date(doc.date + 'T00:00:00'));
+      }
+      setIsSearchOpen(false);
+  };
+
+  const renderSearchPalette = () => {
+      if (!isSearchOpen) return null;
+      const { results, totals } = searchResults;
+      const sections: { type: SearchResultType; label: string; icon: string }[] = [
+          { type: 'entry', label: 'Entries', icon: 'Database' },
+          { type: 'log', label: 'Raw Logs', icon: 'ScrollText' },
+          { type: 'chat', label: 'Chat', icon: 'MessageSquare' },
+      ];
+      const hasResults = sections.some(sec => totals[sec.type] > 0);
+
+      return (
+          <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-start justify-center p-4 pt-[10vh]" onClick={() => setIsSearchOpen(false)}>
+              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-2xl shadow-2xl flex flex-col max-h-[75vh]" onClick={e => e.stopPropagation()}>
+                  <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-800">
+                      <Icons.Search className="w-5 h-5 text-gray-500" />
+                      <input 
+                          autoFocus
+                          value={searchText}
+                          onChange={e => setSearchText(e.target.value)}
+                          onKeyDown={e => {
+                              if (e.key === 'Escape') setIsSearchOpen(false);
+                              if (e.key === 'Enter') {
+                                  const first = sections.map(sec => results[sec.type][0]).find(Boolean);
+                                  if (first) openSearchResult(first);
+                              }
+                          }}
+                          placeholder="Search… e.g. category:movie rating>=4 date:2026-03..2026-06 tag:餐饮"
+                          className="flex-1 bg-transparent outline-none text-sm text-gray-100 placeholder-gray-600"
+                      />
+                      <kbd className="text-[10px] text-gray-500 border border-gray-700 rounded px-1.5 py-0.5">Esc</kbd>
+                  </div>
+                  <div className="overflow-y-auto custom-scrollbar p-2">
+                      {!hasResults ? (
+                          <div className="text-center text-xs text-gray-600 py-8">
+                              {searchText.trim() ? 'No matches' : 'Filters: category: tag: date: type:entry|log|chat, or any field like rating>=4 / merchant=KFC / mood:开心'}
+                          </div>
+                      ) : sections.filter(sec => totals[sec.type] > 0).map(sec => (
+                          <div key={sec.type} className="mb-2">
+                              <div className="flex items-center gap-2 px-2 py-1 text-[10px] uppercase tracking-wider text-gray-500">
+                                  <IconComponent name={sec.icon} className="w-3 h-3" /> {sec.label}
+                                  <span className="text-gray-600">{totals[sec.type] > results[sec.type].length ? `${results[sec.type].length} of ${totals[sec.type]}` : totals[sec.type]}</span>
+                              </div>
+                              {results[sec.type].map(doc => {
+                                  const meta = doc.entry ? (categoryMeta[doc.entry.category] || categoryMeta['other']) : null;
+                                  const key = doc.entry?.id || doc.log?.id || String(doc.message?.timestamp);
+                                  return (
+                                      <button key={key} onClick={() => openSearchResult(doc)} className="w-full text-left flex items-start gap-3 px-2 py-2 rounded-lg hover:bg-gray-800 transition-colors">
+                                          {meta ? (
+                                              <div className={`p-1 rounded ${meta.color} text-white shrink-0`}><IconComponent name={meta.icon} className="w-3 h-3" /></div>
+                                          ) : (
+                                              <div className="p-1 rounded bg-gray-700 text-gray-300 shrink-0"><IconComponent name={sec.icon} className="w-3 h-3" /></div>
+                                          )}
+                                          <div className="min-w-0 flex-1">
+                                              <div className="flex justify-between gap-2 text-xs">
+                                                  <span className="text-gray-200 truncate">
+                                                      {doc.entry ? doc.entry.event : doc.message ? doc.message.role : 'Log'}
+                                                  </span>
+                                                  <span className="font-mono text-gray-500 shrink-0">{doc.date}</span>
+                                              </div>
+                                              <div className="text-[11px] text-gray-500 truncate">
+                                                  {doc.entry
+                                                      ? doc.entry.details?.summary || searchSnippet(Object.values(doc.entry.details || {}).map(formatDetailValue).join(' · '), searchQuery.terms)
+                                                      : searchSnippet((doc.log || doc.message)!.text, searchQuery.terms)}
+                                              </div>
+                                          </div>
+                                      </button>
+                                  );
+                              })}
+                          </div>
+                      ))}
                   </div>
               </div>
           </div>
@@ -1580,7 +5704,10 @@ User Input: "${text}"
                alert("Cannot delete core groups.");
                return;
           }
-          if (confirm("Delete this group? Categories under it will be hidden.")) {
+          const hasCategories = Object.values(categoryMeta).some((m: any) => m.group === id);
+          if (hasCategories) {
+              setGroupDeletion({ id, target: groups.find(g => g.id !== id)!.id });
+          } else if (confirm("Delete this group?")) {
               setGroups(groups.filter(g => g.id !== id));
           }
       };
@@ -1613,16 +5740,48 @@ User Input: "${text}"
                   [key]: createSchema([])
               });
               setEditingSchemaCat(key);
+              setTemplatePickerGroup(null);
+          }
+      };
+
+      const addCategoryFromTemplate = (template: CategoryTemplate, groupId: string) => {
+          const { key, meta, fields } = installCategoryTemplate(template, groupId, categoryMeta);
+          setCategoryMeta({ ...categoryMeta, [key]: meta });
+          setCustomSchemas({ ...customSchemas, [key]: fields });
+          setEditingSchemaCat(key);
+          setTemplatePickerGroup(null);
+      };
+
+      const importCategoryTemplate = async (file: File, groupId: string) => {
+          try {
+              addCategoryFromTemplate(parseCategoryTemplate(await file.text()), groupId);
+          } catch (e: any) {
+              alert(`Import failed: ${e.message}`);
           }
       };
 
+      const setCategoryExamples = (key: string, examples: CategoryExample[]) =>
+          setCategoryMeta({ ...categoryMeta, [key]: { ...categoryMeta[key], examples: examples.length > 0 ? examples : undefined } });
+
+      // Seeds an example from the category's latest entry: its notes as the input, the rest as the answer
+      const exampleFromLatestEntry = (key: string): CategoryExample | null => {
+          const latest = entries.filter(e => e.category === key).sort((a, b) => b.date.localeCompare(a.date))[0];
+          if (!latest) return null;
+          const { notes, ...details } = latest.details;
+          return { input: String(notes || latest.event), details: JSON.stringify(details) };
+      };
+
+      const exportCategoryTemplate = (key: string) => {
+          const file = createCategoryTemplateFile(key, categoryMeta[key], customSchemas[key] || createSchema([]));
+          downloadFile(JSON.stringify(file, null, 2), `lifeos-category-${key}.json`, 'application/json');
+      };
+
       const deleteCategory = (key: string) => {
-          if (confirm(`Delete category "${categoryMeta[key]?.label}"?`)) {
-              const newMeta = { ...categoryMeta };
-              delete newMeta[key];
-              setCategoryMeta(newMeta);
-              if (editingSchemaCat === key) setEditingSchemaCat(null);
+          if (key === 'other') {
+              alert("Cannot delete the fallback category.");
+              return;
           }
+          setCategoryDeletion({ key, target: 'other', mapping: suggestFieldMapping(customSchemas[key] || [], customSchemas['other'] || []) });
       };
 
       // Field Management (Auto-saving logic)
@@ -1653,7 +5812,7 @@ User Input: "${text}"
           if (!editingSchemaCat) return;
           const currentFields = [...(customSchemas[editingSchemaCat] || [])];
           const f = currentFields[idx];
-          if(['summary', 'time', 'duration', 'notes'].includes(f.key)) {
+          if(STANDARD_FIELD_KEYS.includes(f.key)) {
               alert("Cannot delete standard fields");
               return;
           }
@@ -1696,7 +5855,7 @@ User Input: "${text}"
                                       <div className="flex gap-1 opacity-0 group-hover/grp:opacity-100 transition-opacity">
                                           <button onClick={() => moveGroup(idx, -1)} className="p-1 text-gray-500 hover:text-white"><Icons.ArrowUp className="w-3 h-3"/></button>
                                           <button onClick={() => moveGroup(idx, 1)} className="p-1 text-gray-500 hover:text-white"><Icons.ArrowDown className="w-3 h-3"/></button>
-                                          <button onClick={() => addCategory(group.id)} className="p-1 text-blue-500 hover:text-blue-300" title="Add Category"><Icons.Plus className="w-3 h-3"/></button>
+                                          <button onClick={() => setTemplatePickerGroup(group.id)} className="p-1 text-blue-500 hover:text-blue-300" title="Add Category"><Icons.Plus className="w-3 h-3"/></button>
                                           <button onClick={() => deleteGroup(group.id)} className="p-1 text-red-500 hover:text-red-300"><Icons.Trash2 className="w-3 h-3"/></button>
                                       </div>
                                   </div>
@@ -1707,7 +5866,7 @@ User Input: "${text}"
                                           {cats.map(([catKey, meta]) => (
                                               <div 
                                                 key={catKey}
-                                                onClick={() => setEditingSchemaCat(catKey)}
+                                                onClick={() => { setEditingSchemaCat(catKey); setTemplatePickerGroup(null); }}
                                                 className={`flex items-center justify-between px-2 py-1.5 rounded text-xs cursor-pointer group/cat transition-colors ${editingSchemaCat === catKey ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
                                               >
                                                   <div className="flex items-center gap-2">
@@ -1734,10 +5893,52 @@ User Input: "${text}"
 
                   {/* Right Column: Field Editor */}
                   <div className="md:col-span-2 bg-gray-900/50 border border-gray-800 rounded-xl p-4 flex flex-col">
-                      {editingSchemaCat ? (
+                      {templatePickerGroup ? (
+                          <div className="space-y-4">
+                              <div className="flex justify-between items-start border-b border-gray-800 pb-4">
+                                  <div>
+                                      <h4 className="font-bold text-blue-300 text-sm mb-1">New category in {groups.find(g => g.id === templatePickerGroup)?.label}</h4>
+                                      <p className="text-[10px] text-gray-500">Start blank, from a preset, or from a template file shared by someone else.</p>
+                                  </div>
+                                  <button onClick={() => setTemplatePickerGroup(null)} className="p-1 text-gray-500 hover:text-white"><Icons.X className="w-4 h-4" /></button>
+                              </div>
+                              <div className="grid grid-cols-2 lg:grid-cols-3 gap-2">
+                                  <button onClick={() => addCategory(templatePickerGroup)} className="text-left bg-gray-800 hover:bg-gray-700 border border-dashed border-gray-600 rounded-lg p-3">
+                                      <div className="flex items-center gap-2 text-sm text-gray-200"><Icons.Plus className="w-4 h-4" /> Blank</div>
+                                      <div className="text-[10px] text-gray-500 mt-1">Standard fields only</div>
+                                  </button>
+                                  {CATEGORY_PRESETS.map(t => (
+                                      <button key={t.key} onClick={() => addCategoryFromTemplate(t, templatePickerGroup)} className="text-left bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg p-3">
+                                          <div className="flex items-center gap-2 text-sm text-gray-200">
+                                              <span className={`w-5 h-5 rounded flex items-center justify-center ${t.meta.color}`}><IconComponent name={t.meta.icon} className="w-3 h-3 text-white" /></span>
+                                              {t.meta.label}
+                                          </div>
+                                          <div className="text-[10px] text-gray-500 mt-1 truncate">
+                                              {t.fields.filter(f => !STANDARD_FIELD_KEYS.includes(f.key)).map(f => f.label).join(' · ')}
+                                          </div>
+                                      </button>
+                                  ))}
+                                  <button onClick={() => templateInputRef.current?.click()} className="text-left bg-gray-800 hover:bg-gray-700 border border-dashed border-gray-600 rounded-lg p-3">
+                                      <div className="flex items-center gap-2 text-sm text-gray-200"><Icons.Upload className="w-4 h-4" /> Import file…</div>
+                                      <div className="text-[10px] text-gray-500 mt-1">Key clashes get a numeric suffix</div>
+                                  </button>
+                                  <input
+                                      ref={templateInputRef}
+                                      type="file"
+                                      accept="application/json,.json"
+                                      className="hidden"
+                                      onChange={e => {
+                                          const file = e.target.files?.[0];
+                                          if (file) importCategoryTemplate(file, templatePickerGroup);
+                                          e.target.value = '';
+                                      }}
+                                  />
+                              </div>
+                          </div>
+                      ) : editingSchemaCat ? (
                           <>
                               <div className="flex justify-between items-start border-b border-gray-800 pb-4 mb-4">
-                                  <div>
+                                  <div className="flex-1 mr-3">
                                       <h4 className="font-bold text-blue-300 text-sm mb-1">Editing: {categoryMeta[editingSchemaCat]?.label}</h4>
                                       <div className="flex gap-2 text-xs">
                                           <input 
@@ -1751,17 +5952,86 @@ User Input: "${text}"
                                               onChange={e => setCategoryMeta({...categoryMeta, [editingSchemaCat]: { ...categoryMeta[editingSchemaCat], icon: e.target.value }})}
                                               className="bg-gray-800 border border-gray-700 rounded px-2 py-1 w-32"
                                           >
-                                              {['Hash', 'Wallet', 'BookHeart', 'GraduationCap', 'Gamepad2', 'Film', 'BookOpen', 'Utensils', 'Home', 'Sparkles', 'Dumbbell', 'Moon', 'Scale', 'Stethoscope', 'Activity', 'Droplet', 'Briefcase', 'Lightbulb'].map(i => (
+                                              {['Hash', 'Wallet', 'BookHeart', 'GraduationCap', 'Gamepad2', 'Film', 'BookOpen', 'Utensils', 'Home', 'Sparkles', 'Dumbbell', 'Moon', 'Scale', 'Stethoscope', 'Activity', 'Droplet', 'Briefcase', 'Lightbulb', 'Pill', 'ListChecks', 'Plane', 'Car', 'Sprout', 'Send'].map(i => (
                                                   <option key={i} value={i}>{i}</option>
                                               ))}
                                           </select>
+                                          {categoryMeta[editingSchemaCat]?.group === HEALTH_GROUP && (
+                                              <select 
+                                                  value={categoryMeta[editingSchemaCat]?.trend || 'daily'} 
+                                                  onChange={e => setCategoryMeta({...categoryMeta, [editingSchemaCat]: { ...categoryMeta[editingSchemaCat], trend: e.target.value as TrendMode }})}
+                                                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1"
+                                                  title="How Health trends charts this category"
+                                              >
+                                                  <option value="daily">Trend: daily values</option>
+                                                  <option value="weekly">Trend: weekly totals</option>
+                                              </select>
+                                          )}
                                       </div>
+                                      <input
+                                          value={categoryMeta[editingSchemaCat]?.description || ''}
+                                          onChange={e => setCategoryMeta({...categoryMeta, [editingSchemaCat]: { ...categoryMeta[editingSchemaCat], description: e.target.value || undefined }})}
+                                          className="mt-2 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs"
+                                          placeholder="Description: what belongs in this category (used to pick categories for the organizer)"
+                                      />
+                                      <textarea
+                                          value={categoryMeta[editingSchemaCat]?.hints || ''}
+                                          onChange={e => setCategoryMeta({...categoryMeta, [editingSchemaCat]: { ...categoryMeta[editingSchemaCat], hints: e.target.value || undefined }})}
+                                          className="mt-2 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs h-12 resize-none"
+                                          placeholder="Organizer hints: how to fill the fields..."
+                                      />
+                                      <details className="mt-2 text-xs">
+                                          <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Examples ({(categoryMeta[editingSchemaCat]?.examples || []).length})</summary>
+                                          <div className="mt-2 space-y-2">
+                                              {((categoryMeta[editingSchemaCat]?.examples || []) as CategoryExample[]).map((ex, exIdx, all) => (
+                                                  <div key={exIdx} className="bg-gray-800 rounded p-2 space-y-1">
+                                                      <div className="flex gap-2">
+                                                          <input
+                                                              value={ex.input}
+                                                              onChange={e => setCategoryExamples(editingSchemaCat, all.map((x, i) => i === exIdx ? { ...x, input: e.target.value } : x))}
+                                                              className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                                                              placeholder="User says..."
+                                                          />
+                                                          <button onClick={() => setCategoryExamples(editingSchemaCat, all.filter((_, i) => i !== exIdx))} className="p-1 text-red-400 hover:text-red-300"><Icons.Trash2 className="w-3 h-3" /></button>
+                                                      </div>
+                                                      <textarea
+                                                          value={ex.details}
+                                                          onChange={e => setCategoryExamples(editingSchemaCat, all.map((x, i) => i === exIdx ? { ...x, details: e.target.value } : x))}
+                                                          className={`w-full bg-gray-900 border rounded px-2 py-1 font-mono h-14 resize-none ${parseExampleDetails(ex.details) ? 'border-gray-700' : 'border-red-600'}`}
+                                                          placeholder='details JSON, e.g. {"amount": -35}'
+                                                          title={parseExampleDetails(ex.details) ? undefined : 'Not a JSON object; this example is left out of the prompt'}
+                                                      />
+                                                  </div>
+                                              ))}
+                                              <div className="flex gap-2">
+                                                  <button
+                                                      onClick={() => setCategoryExamples(editingSchemaCat, [...(categoryMeta[editingSchemaCat]?.examples || []), { input: '', details: '{}' }])}
+                                                      className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                                                  >
+                                                      <Icons.Plus className="w-3 h-3" /> Add example
+                                                  </button>
+                                                  <button
+                                                      onClick={() => {
+                                                          const ex = exampleFromLatestEntry(editingSchemaCat);
+                                                          if (ex) setCategoryExamples(editingSchemaCat, [...(categoryMeta[editingSchemaCat]?.examples || []), ex]);
+                                                          else alert("No entries in this category yet.");
+                                                      }}
+                                                      className="flex items-center gap-1 text-gray-400 hover:text-gray-200"
+                                                  >
+                                                      <Icons.Copy className="w-3 h-3" /> From latest entry
+                                                  </button>
+                                              </div>
+                                          </div>
+                                      </details>
                                   </div>
+                                  <button onClick={() => exportCategoryTemplate(editingSchemaCat)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white bg-gray-800 border border-gray-700 rounded px-2 py-1 shrink-0" title="Export as a template file">
+                                      <Icons.Download className="w-3 h-3" /> Export
+                                  </button>
                               </div>
                               
                               <div className="space-y-3 flex-1 overflow-y-auto custom-scrollbar pr-2 max-h-[60vh]">
                                   {(customSchemas[editingSchemaCat] || []).map((field, idx) => {
-                                      const isStandard = ['summary', 'time', 'duration', 'notes'].includes(field.key);
+                                      const isStandard = STANDARD_FIELD_KEYS.includes(field.key);
                                       return (
                                           <div key={idx} className="bg-gray-800 rounded p-3 grid grid-cols-12 gap-2 group border border-transparent hover:border-gray-700 transition-colors">
                                               <div className="col-span-4">
@@ -1780,7 +6050,7 @@ User Input: "${text}"
                                                       className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs disabled:opacity-50"
                                                       disabled={isStandard}
                                                   >
-                                                      {['text', 'number', 'select', 'multiselect', 'date', 'rating'].map(t => <option key={t} value={t}>{t}</option>)}
+                                                      {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
                                                   </select>
                                               </div>
                                               <div className="col-span-1 flex flex-col items-center">
@@ -1811,10 +6081,103 @@ User Input: "${text}"
                                                       />
                                                   </div>
                                               )}
+                                              {field.type === 'money' && (
+                                                  <div className="col-span-12 mt-1">
+                                                      <input 
+                                                          value={field.unit || ''} 
+                                                          onChange={e => updateField(field.key, idx, { unit: e.target.value.toUpperCase() || undefined })} 
+                                                          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono" 
+                                                          placeholder="Default currency (CNY)" 
+                                                          maxLength={3}
+                                                      />
+                                                  </div>
+                                              )}
+                                              {field.type === 'reference' && (
+                                                  <div className="col-span-12 mt-1">
+                                                      <select 
+                                                          value={field.refCategory || ''} 
+                                                          onChange={e => updateField(field.key, idx, { refCategory: e.target.value || undefined })} 
+                                                          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs"
+                                                      >
+                                                          <option value="">Link to any category</option>
+                                                          {Object.entries(categoryMeta).map(([k, meta]: [string, any]) => <option key={k} value={k}>Link to {meta.label}</option>)}
+                                                      </select>
+                                                  </div>
+                                              )}
+                                              {field.type === 'computed' && (() => {
+                                                  const numericKeys = (customSchemas[editingSchemaCat] || []).filter(f => f.key !== field.key && isNumericField(f)).map(f => f.key);
+                                                  const invalid = !!field.formula && evaluateFormula(field.formula, () => 1) === null;
+                                                  return (
+                                                      <div className="col-span-12 mt-1 space-y-1">
+                                                          <input 
+                                                              value={field.formula || ''} 
+                                                              onChange={e => updateField(field.key, idx, { formula: e.target.value })} 
+                                                              className={`w-full bg-gray-900 border rounded px-2 py-1 text-xs font-mono ${invalid ? 'border-red-500' : 'border-gray-700'}`} 
+                                                              placeholder="Formula, e.g. calories / duration" 
+                                                          />
+                                                          <div className="text-[10px] text-gray-500 font-mono">Fields: {numericKeys.join(', ') || 'none'}</div>
+                                                      </div>
+                                                  );
+                                              })()}
+                                              {field.type !== 'computed' && (() => {
+                                                  const hasRange = isNumericField(field);
+                                                  const ruleCount = [field.min, field.max, field.pattern, field.defaultValue, field.allowCustomOption].filter(r => r !== undefined && r !== '' && r !== false).length;
+                                                  const parseBound = (value: string) => value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+                                                  const ruleInput = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono";
+                                                  return (
+                                                      <details className="col-span-12 mt-1 text-xs">
+                                                          <summary className="cursor-pointer select-none text-[10px] text-gray-500 uppercase hover:text-gray-300">
+                                                              Rules{ruleCount > 0 ? ` (${ruleCount})` : ''}
+                                                          </summary>
+                                                          <div className="grid grid-cols-2 gap-2 mt-2">
+                                                              <input 
+                                                                  value={field.defaultValue || ''} 
+                                                                  onChange={e => updateField(field.key, idx, { defaultValue: e.target.value || undefined })} 
+                                                                  className={`${ruleInput} col-span-2`} 
+                                                                  placeholder={field.type === 'date' ? 'Default: value or "today"' : field.type === 'time' ? 'Default: value or "now"' : 'Default value'} 
+                                                              />
+                                                              {hasRange && (
+                                                                  <>
+                                                                      <input type="number" value={field.min ?? ''} onChange={e => updateField(field.key, idx, { min: parseBound(e.target.value) })} className={ruleInput} placeholder="Min" />
+                                                                      <input type="number" value={field.max ?? ''} onChange={e => updateField(field.key, idx, { max: parseBound(e.target.value) })} className={ruleInput} placeholder="Max" />
+                                                                  </>
+                                                              )}
+                                                              {field.type === 'text' && (
+                                                                  <input 
+                                                                      value={field.pattern || ''} 
+                                                                      onChange={e => updateField(field.key, idx, { pattern: e.target.value || undefined })} 
+                                                                      className={`${field.pattern && !isValidPattern(field.pattern) ? ruleInput.replace('border-gray-700', 'border-red-500') : ruleInput} col-span-2`} 
+                                                                      placeholder="Pattern (regex), e.g. ^ISBN" 
+                                                                  />
+                                                              )}
+                                                              {(field.type === 'select' || field.type === 'multiselect') && (
+                                                                  <label className="col-span-2 flex items-center gap-2 text-gray-400">
+                                                                      <input 
+                                                                          type="checkbox" 
+                                                                          checked={!!field.allowCustomOption} 
+                                                                          onChange={e => updateField(field.key, idx, { allowCustomOption: e.target.checked || undefined })}
+                                                                          className="accent-blue-500"
+                                                                      />
+                                                                      Allow values outside the options
+                                                                  </label>
+                                                              )}
+                                                          </div>
+                                                      </details>
+                                                  );
+                                              })()}
                                           </div>
                                       );
                                   })}
                               </div>
+                              {(() => {
+                                  const pending = planFieldConversion(entries, editingSchemaCat, customSchemas[editingSchemaCat] || []).length;
+                                  return pending > 0 && (
+                                      <div className="mt-4 flex items-center justify-between gap-2 bg-orange-900/20 border border-orange-700/40 rounded-lg p-3 text-xs text-orange-300">
+                                          <span className="flex items-center gap-1"><Icons.AlertTriangle className="w-3 h-3" /> {pending} entr{pending === 1 ? 'y stores' : 'ies store'} values that don't match these fields</span>
+                                          <button onClick={() => setFieldConversionCat(editingSchemaCat)} className="px-2 py-1 rounded bg-orange-800/40 hover:bg-orange-700/50 text-orange-200">Review conversion</button>
+                                      </div>
+                                  );
+                              })()}
                               <button onClick={addField} className="mt-4 w-full py-3 border-2 border-dashed border-gray-700 rounded-lg text-xs text-gray-500 hover:text-blue-400 hover:border-blue-500/50 hover:bg-blue-900/10 transition-all flex items-center justify-center gap-2">
                                   <Icons.Plus className="w-3 h-3" /> Add Field
                               </button>
@@ -1853,6 +6216,14 @@ User Input: "${text}"
                     {isSidebarOpen && <span>{item.label}</span>}
                 </button>
             ))}
+            <button 
+              onClick={() => setIsSearchOpen(true)}
+              className="w-full flex items-center gap-3 px-3 py-3 rounded-lg transition-colors text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+            >
+                <Icons.Search className="w-5 h-5" />
+                {isSidebarOpen && <span className="flex-1 text-left">Search</span>}
+                {isSidebarOpen && <kbd className="text-[10px] text-gray-500 border border-gray-700 rounded px-1.5 py-0.5">⌘K</kbd>}
+            </button>
         </nav>
       </div>
 
@@ -1861,9 +6232,9 @@ User Input: "${text}"
               {activeTab === 'chat' && (
                   <div className="h-full flex flex-col max-w-4xl mx-auto w-full relative">
                       <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-                          {messages.map((msg, idx) => (
-                              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} group py-3`}>
-                                  <div className={`max-w-[85%] sm:max-w-[80%] rounded-2xl p-4 shadow-sm relative ${
+                          {messages.map((msg, idx) => msg.timestamp === streamingTimestamp && !msg.text && !msg.toolSteps?.length ? null : (
+                              <div key={idx} id={`msg-${msg.timestamp}`} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} group py-3`}>
+                                  <div className={`max-w-[85%] sm:max-w-[80%] rounded-2xl p-4 shadow-sm relative transition-shadow ${highlightedMessage === msg.timestamp ? 'ring-2 ring-yellow-400' : ''} ${
                                       msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 
                                       msg.role === 'system' ? 'bg-gray-800/50 border border-orange-500/30 text-gray-300 text-xs font-mono' : 
                                       'bg-gray-800 text-gray-200 rounded-bl-none'
@@ -1883,6 +6254,26 @@ User Input: "${text}"
                                           )}
                                       </div>
                                       
+                                      {msg.role === 'model' && msg.toolSteps && msg.toolSteps.length > 0 && (
+                                          <div className="mb-2 space-y-1">
+                                              {msg.toolSteps.map((step, i) => (
+                                                  <details key={i} className="group/step bg-gray-900/60 border border-gray-700/60 rounded-lg text-xs">
+                                                      <summary className="flex items-center gap-2 px-2 py-1 cursor-pointer select-none text-gray-400 hover:text-gray-200 list-none">
+                                                          <Icons.ChevronRight className="w-3 h-3 transition-transform group-open/step:rotate-90" />
+                                                          <Icons.Database className="w-3 h-3 text-orange-400" />
+                                                          <span className="font-mono">{step.name}</span>
+                                                          <span className="text-gray-600 truncate">
+                                                              {Object.entries(step.args).map(([k, v]) => `${k}=${typeof v === 'object' ? JSON.stringify(v) : v}`).join(' ')}
+                                                          </span>
+                                                      </summary>
+                                                      <pre className="px-2 pb-2 text-[10px] text-gray-400 whitespace-pre-wrap break-all max-h-48 overflow-y-auto custom-scrollbar">
+                                                          {JSON.stringify(step.result, null, 2)}
+                                                      </pre>
+                                                  </details>
+                                              ))}
+                                          </div>
+                                      )}
+
                                       {editingMsgIndex === idx ? (
                                           <div className="min-w-[200px] sm:min-w-[300px] text-gray-900">
                                               <textarea 
@@ -1901,10 +6292,84 @@ User Input: "${text}"
                                           </div>
                                       ) : (
                                           <div className="whitespace-pre-wrap leading-relaxed text-sm sm:text-base">
+                                              {imageOf(msg.imageId) && (
+                                                  <img src={imageSrc(imageOf(msg.imageId)!)} onClick={() => setLightboxImage(imageOf(msg.imageId)!)} className="max-h-48 rounded-lg mb-2 cursor-zoom-in" />
+                                              )}
                                               {msg.text}
+                                              {msg.timestamp === streamingTimestamp && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />}
                                           </div>
                                       )}
-                                      
+
+                                      {msg.role === 'model' && msg.interrupted && (
+                                          <span className="mt-2 flex items-center gap-1 text-yellow-500/80 text-xs">
+                                              <Icons.StopCircle className="w-3 h-3" /> Interrupted
+                                          </span>
+                                      )}
+
+                                      {msg.role === 'system' && msg.reviewEntries && (
+                                          msg.reviewEntries.length === 0 ? (
+                                              <span className="mt-2 flex items-center gap-1 text-green-400 text-xs">
+                                                  <Icons.Check className="w-3 h-3" /> All reviewed
+                                              </span>
+                                          ) : (
+                                              <div className="mt-2 space-y-2">
+                                                  {msg.reviewEntries.map(item => {
+                                                      const schema = customSchemas[item.entry.category] || [];
+                                                      const shownFields = schema.filter(f => !STANDARD_FIELD_KEYS.includes(f.key) && !isEmptyValue(item.entry.details[f.key]));
+                                                      return (
+                                                      <div key={item.entry.id} className={`bg-gray-900/60 border rounded-lg p-2 ${item.issues.length > 0 ? 'border-orange-700/40' : 'border-sky-700/40'}`}>
+                                                          <div className="flex items-center justify-between gap-2">
+                                                              <div className="flex items-center gap-2 min-w-0">
+                                                                  <div className={`p-1 rounded ${categoryMeta[item.entry.category]?.color || 'bg-gray-600'} text-white`}>
+                                                                      <IconComponent name={categoryMeta[item.entry.category]?.icon || 'Hash'} className="w-3 h-3" />
+                                                                  </div>
+                                                                  <span className="text-gray-200 truncate">{item.entry.event}</span>
+                                                                  <span className="text-gray-500">{item.entry.date}</span>
+                                                                  {item.confidence !== undefined && (
+                                                                      <span className={`text-[10px] px-1 rounded ${item.confidence < DRAFT_CONFIDENCE_THRESHOLD ? 'bg-sky-900/50 text-sky-300' : 'bg-gray-800 text-gray-400'}`} title="Organizer confidence">
+                                                                          {Math.round(item.confidence * 100)}%
+                                                                      </span>
+                                                                  )}
+                                                              </div>
+                                                              <div className="flex gap-1 shrink-0">
+                                                                  {item.issues.length === 0 && (
+                                                                      <button onClick={() => handleConfirmReview(idx, item)} className="text-xs bg-sky-900/40 text-sky-300 px-2 py-1 rounded border border-sky-800/50 hover:bg-sky-900/60">
+                                                                          Confirm
+                                                                      </button>
+                                                                  )}
+                                                                  <button onClick={() => setEditingEntry(item.entry)} className="text-xs bg-orange-900/40 text-orange-300 px-2 py-1 rounded border border-orange-800/50 hover:bg-orange-900/60">
+                                                                      {item.issues.length > 0 ? 'Fix' : 'Edit'}
+                                                                  </button>
+                                                                  <button onClick={() => handleDiscardReview(idx, item.entry.id)} className="text-xs text-gray-500 hover:text-red-300 px-2 py-1">
+                                                                      Discard
+                                                                  </button>
+                                                              </div>
+                                                          </div>
+                                                          {shownFields.length > 0 && (
+                                                              <div className="mt-1 flex flex-wrap gap-1 text-[10px]">
+                                                                  {shownFields.map(f => (
+                                                                      <span key={f.key} className="bg-gray-800 text-gray-300 px-1.5 py-0.5 rounded">{f.label}: {formatFieldValue(f, item.entry.details[f.key], entries)}</span>
+                                                                  ))}
+                                                              </div>
+                                                          )}
+                                                          {item.missing && (
+                                                              <div className="mt-1 text-[10px] text-sky-300/80">
+                                                                  Missing: {item.missing.map(k => schema.find(f => f.key === k)?.label || k).join(', ')}
+                                                              </div>
+                                                          )}
+                                                          {item.question && <div className="mt-1 text-[10px] text-gray-400 italic">{item.question}</div>}
+                                                          {item.issues.length > 0 && (
+                                                              <ul className="mt-1 text-[10px] text-orange-300/80 space-y-0.5">
+                                                                  {item.issues.map((issue, i) => <li key={i}>• {issue}</li>)}
+                                                              </ul>
+                                                          )}
+                                                      </div>
+                                                      );
+                                                  })}
+                                              </div>
+                                          )
+                                      )}
+
                                       {msg.role === 'system' && msg.relatedEntryIds && (
                                           <div className="mt-2 flex gap-2">
                                               {msg.text.includes("(Revoked)") ? (
@@ -1925,7 +6390,7 @@ User Input: "${text}"
                                   </div>
                               </div>
                           ))}
-                          {isProcessing && (
+                          {isProcessing && !messages.some(m => m.timestamp === streamingTimestamp && m.text) && (
                              <div className="flex justify-start animate-pulse">
                                  <div className="bg-gray-800/50 rounded-2xl p-3 flex items-center gap-2">
                                      <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" />
@@ -1980,6 +6445,48 @@ User Input: "${text}"
                                               </div>
                                               <input type="checkbox" checked={chatSettings.organizerEnabled} onChange={e => setChatSettings({...chatSettings, organizerEnabled: e.target.checked})} className="accent-orange-500" />
                                           </div>
+                                          <div className="flex items-center justify-between bg-gray-800 p-2 rounded px-3">
+                                              <div className="flex items-center gap-2">
+                                                  <Icons.Mic className="w-4 h-4 text-red-400" />
+                                                  <div className="flex flex-col">
+                                                      <span className="text-sm">Keep Voice Recordings</span>
+                                                      <span className="text-[10px] text-gray-500">Attach push-to-talk audio to the raw log</span>
+                                                  </div>
+                                              </div>
+                                              <input type="checkbox" checked={chatSettings.keepVoiceRecordings} onChange={e => setChatSettings({...chatSettings, keepVoiceRecordings: e.target.checked})} className="accent-red-500" />
+                                          </div>
+                                          <div className="bg-gray-800 p-2 rounded px-3 space-y-2">
+                                              <div className="flex items-center justify-between">
+                                                  <div className="flex items-center gap-2">
+                                                      <Icons.NotebookPen className="w-4 h-4 text-indigo-400" />
+                                                      <div className="flex flex-col">
+                                                          <span className="text-sm">Background Logger</span>
+                                                          <span className="text-[10px] text-gray-500">{pendingLogCount} unsummarized message{pendingLogCount === 1 ? '' : 's'}</span>
+                                                      </div>
+                                                  </div>
+                                                  <button 
+                                                    onClick={() => runLogger()}
+                                                    disabled={isLogging || pendingLogCount === 0}
+                                                    className="flex items-center gap-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                                                  >
+                                                      {isLogging ? <Icons.Loader2 className="w-3 h-3 animate-spin" /> : <Icons.Sparkles className="w-3 h-3" />}
+                                                      Summarize Now
+                                                  </button>
+                                              </div>
+                                              <div className="flex items-center justify-between text-xs text-gray-400">
+                                                  <span>Batch Size (0 = manual only)</span>
+                                                  <input 
+                                                    type="number" 
+                                                    min="0"
+                                                    value={aiConfig.batchSize}
+                                                    onChange={e => {
+                                                        const val = parseInt(e.target.value);
+                                                        setAiConfig({...aiConfig, batchSize: isNaN(val) ? 0 : Math.max(0, val)});
+                                                    }}
+                                                    className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-indigo-500 outline-none"
+                                                  />
+                                              </div>
+                                          </div>
                                       </div>
 
                                       <div className="space-y-3">
@@ -2031,28 +6538,94 @@ User Input: "${text}"
                                                 className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:border-purple-500 outline-none disabled:opacity-30 disabled:cursor-not-allowed placeholder-gray-600 font-mono transition-colors"
                                               />
                                           </div>
+
+                                          <div className="flex items-center justify-between text-xs text-gray-400">
+                                              <span>Token Budget</span>
+                                              <input 
+                                                type="number" 
+                                                min="0"
+                                                step="500"
+                                                value={chatSettings.contextTokenBudget}
+                                                onChange={e => {
+                                                    const val = parseInt(e.target.value);
+                                                    setChatSettings({...chatSettings, contextTokenBudget: isNaN(val) ? 0 : Math.max(0, val)});
+                                                }}
+                                                className="w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:border-purple-500 outline-none font-mono"
+                                              />
+                                          </div>
+                                          <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+                                              <span>Include "Saved:" notices</span>
+                                              <input 
+                                                type="checkbox" 
+                                                checked={chatSettings.includeSystemNotices}
+                                                onChange={e => setChatSettings({...chatSettings, includeSystemNotices: e.target.checked})}
+                                                className="accent-purple-500"
+                                              />
+                                          </label>
                                       </div>
                                   </div>
                               </div>
                           )}
 
                           <div className="p-2 sm:p-4">
+                              {pendingAudio && (
+                                  <div className="flex items-center gap-2 mb-2 text-xs text-gray-400">
+                                      <Icons.Mic className="w-3 h-3 text-red-400" />
+                                      <audio controls src={audioSrc(pendingAudio)} className="h-8" />
+                                      <span className="hidden sm:inline">Recording will be kept with the raw log</span>
+                                      <button onClick={() => setPendingAudio(null)} className="p-1 hover:text-red-300"><Icons.X className="w-3 h-3" /></button>
+                                  </div>
+                              )}
+                              {pendingImage && (
+                                  <div className="relative inline-block mb-2">
+                                      <img src={imageSrc(pendingImage)} onClick={() => setLightboxImage(pendingImage)} className="h-20 rounded-lg border border-gray-700 cursor-zoom-in" />
+                                      <button onClick={() => setPendingImage(null)} className="absolute -top-2 -right-2 p-1 rounded-full bg-gray-900 border border-gray-700 text-gray-400 hover:text-red-300">
+                                          <Icons.X className="w-3 h-3" />
+                                      </button>
+                                  </div>
+                              )}
                               <div className="flex items-end gap-2 bg-gray-800 p-2 rounded-xl border border-gray-700 focus-within:border-blue-500 transition-colors">
-                                  <button className="p-2 text-gray-400 hover:text-white transition-colors">
+                                  <button onClick={() => chatImageInputRef.current?.click()} className="p-2 text-gray-400 hover:text-white transition-colors">
                                       <Icons.Paperclip className="w-5 h-5" />
                                   </button>
+                                  <input
+                                    ref={chatImageInputRef}
+                                    type="file"
+                                    accept="image/*"
+                                    className="hidden"
+                                    onChange={e => {
+                                        attachImage(e.target.files?.[0], setPendingImage);
+                                        e.target.value = '';
+                                    }}
+                                  />
                                   <textarea 
                                     value={inputText}
                                     onChange={e => setInputText(e.target.value)}
+                                    onPaste={e => {
+                                        const file = imageFromClipboard(e.clipboardData);
+                                        if (!file) return;
+                                        e.preventDefault();
+                                        attachImage(file, setPendingImage);
+                                    }}
                                     onKeyDown={e => {
                                         if(e.key === 'Enter' && !e.shiftKey) {
                                             e.preventDefault();
                                             handleSendMessage();
                                         }
                                     }}
-                                    placeholder="Type a message..."
+                                    placeholder={voiceState === 'recording' ? 'Listening... release to transcribe' : voiceState === 'transcribing' ? 'Transcribing...' : 'Type a message...'}
                                     className="flex-1 bg-transparent border-none outline-none resize-none h-10 max-h-32 py-2 text-sm custom-scrollbar"
                                   />
+                                  <button
+                                    onPointerDown={e => { e.preventDefault(); startVoiceInput(); }}
+                                    onPointerUp={stopVoiceInput}
+                                    onPointerLeave={stopVoiceInput}
+                                    disabled={voiceState === 'transcribing'}
+                                    title="Hold to talk"
+                                    className={`p-2 rounded-lg transition-colors touch-none select-none ${voiceState === 'recording' ? 'bg-red-600 text-white animate-pulse' : 'text-gray-400 hover:text-white'}`}
+                                  >
+                                      {voiceState === 'transcribing' ? <Icons.Loader2 className="w-5 h-5 animate-spin" /> : <Icons.Mic className="w-5 h-5" />}
+                                  </button>
                                   {isProcessing ? (
                                       <button onClick={handleStop} className="p-2 bg-red-600 hover:bg-red-500 text-white rounded-lg transition-colors">
                                           <div className="w-5 h-5 flex items-center justify-center font-bold">■</div>
@@ -2082,6 +6655,15 @@ User Input: "${text}"
                         setRawLogs={setRawLogs}
                         groups={groups}
                         categoryMeta={categoryMeta}
+                        customSchemas={customSchemas}
+                        financeBudgets={financeBudgets}
+                        setFinanceBudgets={setFinanceBudgets}
+                        currencySettings={currencySettings}
+                        panel={dashboardPanel}
+                        setPanel={setDashboardPanel}
+                        openImage={setLightboxImage}
+                        imageData={imageData}
+                        reportModel={aiConfig.models.report}
                       />
                   </div>
               )}
@@ -2110,12 +6692,34 @@ User Input: "${text}"
                                         className="w-full h-48 bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm font-mono focus:border-orange-500 outline-none" 
                                     />
                                 </div>
+                                <div className="space-y-4 md:col-span-2">
+                                    <h3 className="text-xl font-bold flex items-center gap-2 text-indigo-400">
+                                        <Icons.NotebookPen className="w-5 h-5" /> Logger Prompt
+                                    </h3>
+                                    <textarea 
+                                        value={aiConfig.loggerInstructions} 
+                                        onChange={e => setAiConfig({...aiConfig, loggerInstructions: e.target.value})}
+                                        className="w-full h-32 bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm font-mono focus:border-indigo-500 outline-none" 
+                                    />
+                                </div>
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderModelSection()}
                            </div>
 
                            <div className="border-t border-gray-800 pt-8">
                                {renderSchemaEditor()}
                            </div>
 
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderCurrencySection()}
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderBackupSection()}
+                           </div>
+
                            <div className="border-t border-gray-800 pt-8">
                                <div className="flex justify-between items-center bg-red-900/10 border border-red-900/30 p-6 rounded-xl">
                                    <div>
@@ -2124,8 +6728,10 @@ User Input: "${text}"
                                    </div>
                                    <button onClick={() => {
                                        if(window.confirm("NUKE EVERYTHING? This cannot be undone.")) {
-                                           localStorage.clear();
-                                           window.location.reload();
+                                           storage.clear().finally(() => {
+                                               localStorage.clear();
+                                               window.location.reload();
+                                           });
                                        }
                                    }} className="bg-red-900/50 hover:bg-red-800 text-red-200 px-4 py-2 rounded text-sm border border-red-800">Clear All Data</button>
                                </div>
@@ -2135,7 +6741,19 @@ User Input: "${text}"
               )}
           </div>
 
+          {renderSearchPalette()}
           {editingEntry && renderEditModal()}
+          {lightboxImage && (
+              <div onClick={() => setLightboxImage(null)} className="fixed inset-0 bg-black/90 z-[60] flex items-center justify-center p-4 cursor-zoom-out animate-fade-in">
+                  <img src={imageSrc(lightboxImage)} className="max-w-full max-h-full object-contain rounded-lg shadow-2xl" />
+                  <button onClick={() => setLightboxImage(null)} className="absolute top-4 right-4 p-2 rounded-full bg-gray-900/80 text-gray-300 hover:text-white">
+                      <Icons.X className="w-5 h-5" />
+                  </button>
+              </div>
+          )}
+          {renderCategoryDeletionModal()}
+          {renderFieldConversionModal()}
+          {renderGroupDeletionModal()}
 
           <div className="md:hidden bg-gray-900 border-t border-gray-800 flex justify-around items-center p-2 shrink-0 z-50">
                 {[
@@ -2152,11 +6770,15 @@ User Input: "${text}"
                         <span className="text-[10px] font-medium">{item.label}</span>
                     </button>
                 ))}
+                <button 
+                    onClick={() => setIsSearchOpen(true)}
+                    className="flex flex-col items-center p-2 rounded-lg transition-colors w-16 text-gray-500"
+                >
+                    <Icons.Search className="w-6 h-6 mb-1" />
+                    <span className="text-[10px] font-medium">Search</span>
+                </button>
           </div>
       </main>
     </div>
   );
 }
-
-const root = createRoot(document.getElementById('root')!);
-root.render(<Index />);
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { createRoot } from 'react-dom/client';
+import Index from './index';
+
+const root = createRoot(document.getElementById('root')!);
+root.render(<Index />);
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import type { LifeOSData } from './types';
+import { DATA_MIGRATIONS, DATA_VERSION, LEGACY_ORGANIZER_INSTRUCTIONS_V1, runMigrations } from './index';
+
+// A profile as the localStorage-era app saved it: partial settings, id-less logs, text time fields
+const legacyProfile = (): LifeOSData => ({
+  entries: [
+    { id: 'e1', date: '2025-01-01', category: 'exercise', event: '跑步', details: { summary: '跑步', time: '07:30', duration: '30分钟', notes: '' } },
+    { id: 'e2', date: '2025-01-02', category: 'exercise', event: '游泳', details: { summary: '游泳', time: 'morning', duration: 'a while', notes: 'pool' } }
+  ],
+  messages: [],
+  rawLogs: [{ timestamp: 10, text: 'a' }, { timestamp: 10, text: 'b' }, { id: 'kept', timestamp: 11, text: 'c' }] as LifeOSData['rawLogs'],
+  images: [],
+  aiConfig: { chatInstructions: 'My own persona', organizerInstructions: 'Mine', loggerInstructions: 'Mine', batchSize: 20 } as LifeOSData['aiConfig'],
+  chatSettings: { chatEnabled: false, organizerEnabled: true } as LifeOSData['chatSettings'],
+  customSchemas: {
+    exercise: [
+      { key: 'summary', label: '简述', type: 'text', required: true },
+      { key: 'time', label: '时间', type: 'text', required: true },
+      { key: 'duration', label: '时长', type: 'text' },
+      { key: 'notes', label: '详情', type: 'text', required: true }
+    ]
+  },
+  groups: [{ id: 'life', label: 'Life' }],
+  categoryMeta: { exercise: { group: 'body', label: '锻炼' } },
+  loggerWatermark: 0,
+  financeBudgets: {},
+  currencySettings: { baseCurrency: 'CNY', exchangeRates: [] }
+});
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+describe('DATA_MIGRATIONS', () => {
+  it('is ordered by strictly increasing version ending at DATA_VERSION', () => {
+    const versions = DATA_MIGRATIONS.map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(DATA_VERSION);
+  });
+
+  it('has steps that never mutate their input and give the same output for the same input', () => {
+    let data = legacyProfile();
+    for (const step of DATA_MIGRATIONS) {
+      const input = deepFreeze(structuredClone(data));
+      const first = step.migrate(input);
+      expect(step.migrate(input), `v${step.version}`).toEqual(first);
+      data = first;
+    }
+  });
+});
+
+describe('runMigrations', () => {
+  it('only runs steps newer than the stored version', () => {
+    const data = legacyProfile();
+    expect(runMigrations(data, DATA_VERSION)).toBe(data);
+  });
+
+  it('gives raw logs stable ids and keeps existing ones', () => {
+    const { rawLogs } = runMigrations(legacyProfile(), 0);
+    expect(rawLogs.map(l => l.id)).toEqual(['log-10-0', 'log-10-1', 'kept']);
+  });
+
+  it('backfills settings fields while keeping what the user set', () => {
+    const { aiConfig, chatSettings } = runMigrations(legacyProfile(), 0);
+    expect(aiConfig.chatInstructions).toBe('My own persona');
+    expect(aiConfig.batchSize).toBe(20);
+    expect(Object.keys(aiConfig.models).sort()).toEqual(['chat', 'classifier', 'logger', 'organizer', 'report', 'vision']);
+    expect(chatSettings.chatEnabled).toBe(false);
+    expect(chatSettings.keepVoiceRecordings).toBe(false);
+    expect(chatSettings.contextTokenBudget).toBeGreaterThan(0);
+  });
+
+  it('adds new pipelines to saved model profiles without resetting configured ones', () => {
+    const data = runMigrations(legacyProfile(), 0);
+    const { classifier, ...rest } = data.aiConfig.models;
+    const saved = { ...data, aiConfig: { ...data.aiConfig, models: { ...rest, chat: { ...rest.chat, model: 'custom', temperature: 0.2 } } } };
+    const models = runMigrations(saved as LifeOSData, 5).aiConfig.models;
+    expect(models.chat).toMatchObject({ model: 'custom', temperature: 0.2 });
+    expect(models.classifier.model).toBeTruthy();
+  });
+
+  it('merges built-in schema fields into saved schemas, keeping user fields in place', () => {
+    const { customSchemas } = runMigrations(legacyProfile(), 0);
+    const keys = customSchemas.exercise.map(f => f.key);
+    expect(keys[keys.length - 1]).toBe('notes');
+    expect(keys).toContain('type');
+    expect(customSchemas.finance_tracking).toBeDefined();
+  });
+
+  it('charts exercise as weekly totals unless a trend was chosen', () => {
+    expect(runMigrations(legacyProfile(), 4).categoryMeta.exercise.trend).toBe('weekly');
+    const chosen = { ...legacyProfile(), categoryMeta: { exercise: { group: 'body', label: '锻炼', trend: 'daily' } } };
+    expect(runMigrations(chosen, 4).categoryMeta.exercise.trend).toBe('daily');
+  });
+
+  it('types time and duration fields, moving values that do not parse into notes', () => {
+    const { entries, customSchemas } = runMigrations(legacyProfile(), 6);
+    expect(customSchemas.exercise.find(f => f.key === 'time')!.type).toBe('time');
+    expect(customSchemas.exercise.find(f => f.key === 'duration')!.type).toBe('duration');
+    expect(entries[0].details).toMatchObject({ time: '07:30', duration: 30 });
+    expect(entries[1].details.time).toBeUndefined();
+    expect(entries[1].details.duration).toBeUndefined();
+    expect(entries[1].details.notes).toBe('pool\n时间: morning\n时长: a while');
+  });
+
+  it('replaces the untouched first default organizer prompt and keeps edited ones', () => {
+    const withPrompt = (organizerInstructions: string) => {
+      const data = legacyProfile();
+      return { ...data, aiConfig: { ...data.aiConfig, organizerInstructions } };
+    };
+    const migrated = runMigrations(withPrompt(LEGACY_ORGANIZER_INSTRUCTIONS_V1), 0).aiConfig.organizerInstructions;
+    expect(migrated).not.toBe(LEGACY_ORGANIZER_INSTRUCTIONS_V1);
+    expect(migrated).toContain('Duration in minutes');
+    expect(migrated).not.toContain('**Finance Rules**');
+    expect(runMigrations(withPrompt(`${LEGACY_ORGANIZER_INSTRUCTIONS_V1}\nAlso log my cat.`), 0).aiConfig.organizerInstructions).toContain('Also log my cat.');
+  });
+
+  it('stores each inline photo once and points the message and its entries at it', () => {
+    const photo = { image: 'PHOTO' };
+    const base = legacyProfile();
+    const data = {
+      ...base,
+      messages: [
+        { role: 'user' as const, text: 'lunch', timestamp: 5, ...photo },
+        { role: 'system' as const, text: 'Needs review', timestamp: 6, reviewEntries: [{ entry: { ...base.entries[1], id: 'held', ...photo }, issues: [] }] }
+      ],
+      entries: [{ ...base.entries[0], ...photo }, { ...base.entries[1], image: 'OTHER' }]
+    } as LifeOSData;
+    const { images, messages, entries } = runMigrations(data, 8);
+    expect(images).toEqual([{ id: 'img-5', data: 'PHOTO' }, { id: 'img-entry-e2', data: 'OTHER' }]);
+    expect(messages[0].imageId).toBe('img-5');
+    expect(messages[1].reviewEntries![0].entry.imageId).toBe('img-5');
+    expect(entries.map(e => e.imageId)).toEqual(['img-5', 'img-entry-e2']);
+    expect(JSON.stringify({ messages, entries })).not.toContain('"image"');
+  });
+
+  it('points records at photos that are already stored', () => {
+    const base = legacyProfile();
+    const data = {
+      ...base,
+      images: [{ id: 'img-kept', data: 'PHOTO' }],
+      messages: [{ role: 'user' as const, text: 'lunch', timestamp: 5, image: 'PHOTO' }],
+      entries: [{ ...base.entries[0], image: 'PHOTO' }, base.entries[1]]
+    } as unknown as LifeOSData;
+    const { images, messages, entries } = runMigrations(data, 8);
+    expect(images).toEqual([{ id: 'img-kept', data: 'PHOTO' }]);
+    expect(messages[0].imageId).toBe('img-kept');
+    expect(entries.map(e => e.imageId)).toEqual(['img-kept', undefined]);
+    expect(JSON.stringify({ messages, entries })).not.toContain('"image"');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { ChatMessage, Entry, LifeOSData } from './types';
+import { IDBFactory } from 'fake-indexeddb';
+import { createMemoryStorage, createIndexedDBStorage, diffRecords, saveMigratedData, migrateFromLocalStorage, ensureUniqueTimestamps } from './storage';
+
+const entry = (id: string, date = '2025-01-01'): Entry => ({ id, date, category: 'diary', event: id, details: {} });
+const message = (timestamp: number, text = 'hi'): ChatMessage => ({ role: 'user', text, timestamp });
+
+const dataset = (overrides: Partial<LifeOSData> = {}): LifeOSData => ({
+  entries: [], messages: [], rawLogs: [], images: [],
+  aiConfig: {} as LifeOSData['aiConfig'], chatSettings: {} as LifeOSData['chatSettings'],
+  customSchemas: {}, groups: [], categoryMeta: {}, loggerWatermark: 0, financeBudgets: {},
+  currencySettings: { baseCurrency: 'CNY', exchangeRates: [] },
+  ...overrides
+});
+
+describe('createMemoryStorage', () => {
+  it('puts, overwrites and deletes records by their collection key', async () => {
+    const storage = createMemoryStorage();
+    await storage.putMany('entries', [entry('a'), entry('b')]);
+    await storage.putMany('entries', [{ ...entry('a'), event: 'changed' }]);
+    await storage.deleteMany('entries', ['b']);
+    expect(await storage.getAll('entries')).toEqual([{ ...entry('a'), event: 'changed' }]);
+
+    await storage.putMany('messages', [message(1), message(2)]);
+    await storage.deleteMany('messages', [1]);
+    expect((await storage.getAll('messages')).map(m => m.timestamp)).toEqual([2]);
+  });
+
+  it('clones records so callers cannot mutate what is stored', async () => {
+    const storage = createMemoryStorage();
+    const e = entry('a');
+    await storage.putMany('entries', [e]);
+    e.event = 'mutated';
+    const [stored] = await storage.getAll('entries');
+    stored.details.x = 1;
+    expect(await storage.getAll('entries')).toEqual([entry('a')]);
+  });
+
+  it('keeps values separately and clears everything', async () => {
+    const storage = createMemoryStorage();
+    await storage.setValue('groups', [{ id: 'life', label: 'Life' }]);
+    await storage.putMany('entries', [entry('a')]);
+    expect(await storage.getValue('groups')).toEqual([{ id: 'life', label: 'Life' }]);
+    expect(await storage.getValue('missing')).toBeUndefined();
+    await storage.clear();
+    expect(await storage.getAll('entries')).toEqual([]);
+    expect(await storage.getValue('groups')).toBeUndefined();
+  });
+});
+
+describe('createIndexedDBStorage', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const indexesOf = async (store: string) => {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open('lifeos');
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    const names = Array.from(db.transaction(store, 'readonly').objectStore(store).indexNames);
+    db.close();
+    return names;
+  };
+
+  it('indexes entries by date and category', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    const storage = createIndexedDBStorage();
+    await storage.putMany('entries', [entry('a')]);
+    expect(await storage.getAll('entries')).toEqual([entry('a')]);
+    expect(await indexesOf('entries')).toEqual(expect.arrayContaining(['date', 'category']));
+  });
+
+  it('adds missing indexes when upgrading an older database', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    await new Promise<void>((resolve, reject) => {
+      const req = indexedDB.open('lifeos', 1);
+      req.onupgradeneeded = () => { req.result.createObjectStore('entries', { keyPath: 'id' }); };
+      req.onsuccess = () => { req.result.close(); resolve(); };
+      req.onerror = () => reject(req.error);
+    });
+    await createIndexedDBStorage().getAll('entries');
+    expect(await indexesOf('entries')).toEqual(expect.arrayContaining(['date', 'category']));
+  });
+});
+
+describe('diffRecords', () => {
+  const keyOf = (e: Entry) => e.id;
+
+  it('reports new and changed records by reference and removed ones by key', () => {
+    const a = entry('a'), b = entry('b'), c = entry('c');
+    const b2 = { ...b, event: 'edited' };
+    const { upserts, deletes } = diffRecords([a, b, c], [a, b2, entry('d')], keyOf);
+    expect(upserts.map(e => e.id)).toEqual(['b', 'd']);
+    expect(deletes).toEqual(['c']);
+  });
+
+  it('leaves the in-flight record out on both sides', () => {
+    const m1 = message(1), m2 = message(2, 'partial');
+    const { upserts, deletes } = diffRecords([m1], [m1, m2], m => m.timestamp, 2);
+    expect(upserts).toEqual([]);
+    expect(deletes).toEqual([]);
+    expect(diffRecords([m1, m2], [m1], m => m.timestamp, 2).deletes).toEqual([]);
+  });
+});
+
+describe('saveMigratedData', () => {
+  it('writes only the records and values a migration changed', async () => {
+    const storage = createMemoryStorage();
+    const putMany = vi.spyOn(storage, 'putMany');
+    const setValue = vi.spyOn(storage, 'setValue');
+    const kept = entry('kept');
+    const before = dataset({ entries: [kept, entry('old')] });
+    const after = { ...before, entries: [kept, { ...entry('old'), event: 'new' }], groups: [{ id: 'x', label: 'X' }] };
+
+    await saveMigratedData(storage, before, after, 7);
+
+    expect(putMany).toHaveBeenCalledWith('entries', [after.entries[1]]);
+    expect(setValue.mock.calls.map(([key]) => key)).toEqual(['groups', 'dataVersion']);
+    expect(await storage.getValue('dataVersion')).toBe(7);
+  });
+});
+
+describe('migrateFromLocalStorage', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stubLocalStorage = (items: Record<string, unknown>) => {
+    const store = new Map(Object.entries(items).map(([k, v]) => [k, JSON.stringify(v)]));
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      removeItem: (k: string) => { store.delete(k); }
+    });
+    return store;
+  };
+
+  it('copies the legacy keys once and removes them', async () => {
+    const store = stubLocalStorage({
+      lifeos_entries: [entry('a')],
+      lifeos_messages: [message(5, 'x'), message(5, 'y')],
+      lifeos_rawlogs: [{ timestamp: 1, text: 'log' }],
+      lifeos_groups: [{ id: 'life', label: 'Life' }]
+    });
+    const storage = createMemoryStorage();
+    await migrateFromLocalStorage(storage);
+
+    expect(await storage.getAll('entries')).toEqual([entry('a')]);
+    expect((await storage.getAll('messages')).map(m => m.timestamp)).toEqual([5, 6]);
+    const [log] = await storage.getAll('rawLogs');
+    expect(log.id).toBeTruthy();
+    expect(await storage.getValue('groups')).toEqual([{ id: 'life', label: 'Life' }]);
+    expect(store.size).toBe(0);
+
+    // A second run finds the flag and leaves the adapter alone
+    stubLocalStorage({ lifeos_entries: [entry('b')] });
+    await migrateFromLocalStorage(storage);
+    expect((await storage.getAll('entries')).map(e => e.id)).toEqual(['a']);
+  });
+});
+
+describe('ensureUniqueTimestamps', () => {
+  it('sorts messages and nudges collisions apart', () => {
+    const out = ensureUniqueTimestamps([message(3), message(1), message(1)]);
+    expect(out.map(m => m.timestamp)).toEqual([1, 2, 3]);
+  });
+});
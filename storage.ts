@@ -0,0 +1,222 @@
+import type { Entry, ChatMessage, RawLog, StoredImage, LifeOSData } from './types';
+
+// Persistence for LifeOSData: a per-record adapter over IndexedDB, with a Map-backed twin for Node and tests.
+// Nothing here knows about React; the hooks that feed it live next to the state in index.tsx.
+
+export type CollectionName = 'entries' | 'messages' | 'rawLogs' | 'images';
+
+export interface CollectionRecords {
+  entries: Entry;
+  messages: ChatMessage;
+  rawLogs: RawLog;
+  images: StoredImage;
+}
+
+export interface StorageAdapter {
+  getAll<K extends CollectionName>(collection: K): Promise<CollectionRecords[K][]>;
+  putMany<K extends CollectionName>(collection: K, records: CollectionRecords[K][]): Promise<void>;
+  deleteMany(collection: CollectionName, keys: (string | number)[]): Promise<void>;
+  getValue<T>(key: string): Promise<T | undefined>;
+  setValue(key: string, value: unknown): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const COLLECTION_KEYS: { [K in CollectionName]: (record: CollectionRecords[K]) => string | number } = {
+  entries: e => e.id,
+  messages: m => m.timestamp,
+  rawLogs: l => l.id,
+  images: i => i.id
+};
+
+// Plain Map-backed adapter: used where IndexedDB is unavailable (tests, Node)
+export const createMemoryStorage = (): StorageAdapter => {
+  const collections: { [K in CollectionName]: Map<string | number, CollectionRecords[K]> } = {
+    entries: new Map(),
+    messages: new Map(),
+    rawLogs: new Map(),
+    images: new Map()
+  };
+  const values = new Map<string, unknown>();
+  // Records are cloned on the way in and out, mirroring IndexedDB's structured clone
+  const clone = <T>(v: T): T => structuredClone(v);
+
+  return {
+    getAll: async (collection) => Array.from(collections[collection].values()).map(clone),
+    putMany: async (collection, records) => {
+      const map = collections[collection] as Map<string | number, any>;
+      const keyOf = COLLECTION_KEYS[collection] as (r: any) => string | number;
+      records.forEach(r => map.set(keyOf(r), clone(r)));
+    },
+    deleteMany: async (collection, keys) => {
+      keys.forEach(k => collections[collection].delete(k));
+    },
+    getValue: async <T>(key: string) => clone(values.get(key)) as T | undefined,
+    setValue: async (key, value) => { values.set(key, clone(value)); },
+    clear: async () => {
+      Object.values(collections).forEach(map => map.clear());
+      values.clear();
+    }
+  };
+};
+
+const DB_NAME = 'lifeos';
+const DB_VERSION = 3;
+
+const requestToPromise = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openLifeOSDatabase = () => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    const tx = req.transaction!;
+    // Stores and indexes are created when missing, so a database from any earlier version upgrades in place
+    const storeFor = (name: string, options?: IDBObjectStoreParameters) =>
+      db.objectStoreNames.contains(name) ? tx.objectStore(name) : db.createObjectStore(name, options);
+    const ensureIndex = (store: IDBObjectStore, name: string) => {
+      if (!store.indexNames.contains(name)) store.createIndex(name, name);
+    };
+    const entries = storeFor('entries', { keyPath: 'id' });
+    ensureIndex(entries, 'date');
+    ensureIndex(entries, 'category');
+    storeFor('messages', { keyPath: 'timestamp' });
+    ensureIndex(storeFor('rawLogs', { keyPath: 'id' }), 'timestamp');
+    storeFor('images', { keyPath: 'id' });
+    storeFor('kv');
+  };
+  return requestToPromise(req);
+};
+
+export const createIndexedDBStorage = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDB = () => (dbPromise ??= openLifeOSDatabase());
+
+  const write = async (storeNames: string | string[], fn: (tx: IDBTransaction) => void) => {
+    const tx = (await getDB()).transaction(storeNames, 'readwrite');
+    fn(tx);
+    await transactionDone(tx);
+  };
+
+  return {
+    getAll: async (collection) => {
+      const tx = (await getDB()).transaction(collection, 'readonly');
+      return requestToPromise(tx.objectStore(collection).getAll());
+    },
+    putMany: async (collection, records) => {
+      if (records.length === 0) return;
+      await write(collection, tx => records.forEach(r => tx.objectStore(collection).put(r)));
+    },
+    deleteMany: async (collection, keys) => {
+      if (keys.length === 0) return;
+      await write(collection, tx => keys.forEach(k => tx.objectStore(collection).delete(k)));
+    },
+    getValue: async <T>(key: string) => {
+      const tx = (await getDB()).transaction('kv', 'readonly');
+      return requestToPromise(tx.objectStore('kv').get(key)) as Promise<T | undefined>;
+    },
+    setValue: async (key, value) => {
+      await write('kv', tx => tx.objectStore('kv').put(value, key));
+    },
+    clear: async () => {
+      await write(['entries', 'messages', 'rawLogs', 'images', 'kv'], tx => {
+        ['entries', 'messages', 'rawLogs', 'images', 'kv'].forEach(name => tx.objectStore(name).clear());
+      });
+    }
+  };
+};
+
+// Settings-like values live in the key/value store under these keys (formerly `lifeos_*` in localStorage)
+const LEGACY_VALUE_KEYS: Record<string, string> = {
+  aiConfig: 'lifeos_aiconfig',
+  chatSettings: 'lifeos_chatsettings',
+  customSchemas: 'lifeos_schemas',
+  groups: 'lifeos_groups',
+  categoryMeta: 'lifeos_categorymeta',
+  loggerWatermark: 'lifeos_loggerwatermark'
+};
+
+// Every value in the key/value store; keys added after the IndexedDB move have no legacy counterpart
+export const VALUE_KEYS = [...Object.keys(LEGACY_VALUE_KEYS), 'financeBudgets', 'currencySettings'] as (keyof LifeOSData)[];
+
+// Early raw logs had no id; derive one from the timestamp (and position, for same-millisecond logs)
+// so running this twice over the same data gives the same ids
+export const backfillRawLogIds = (logs: RawLog[]): RawLog[] =>
+  logs.map((log, i) => log.id ? log : { ...log, id: `log-${log.timestamp}-${i}` });
+
+// One-time copy of the old localStorage data into the adapter; the legacy keys are removed afterwards
+export const migrateFromLocalStorage = async (storage: StorageAdapter) => {
+  if (typeof localStorage === 'undefined' || await storage.getValue<boolean>('migratedFromLocalStorage')) return;
+  const read = (key: string) => {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  };
+
+  const entries: Entry[] = read('lifeos_entries') || [];
+  const messages: ChatMessage[] = ensureUniqueTimestamps(read('lifeos_messages') || []);
+  const rawLogs = backfillRawLogIds(read('lifeos_rawlogs') || []);
+
+  await storage.putMany('entries', entries);
+  await storage.putMany('messages', messages);
+  await storage.putMany('rawLogs', rawLogs);
+  for (const [key, legacyKey] of Object.entries(LEGACY_VALUE_KEYS)) {
+    const value = read(legacyKey);
+    if (value !== undefined) await storage.setValue(key, value);
+  }
+  await storage.setValue('migratedFromLocalStorage', true);
+
+  ['lifeos_entries', 'lifeos_messages', 'lifeos_rawlogs', ...Object.values(LEGACY_VALUE_KEYS)]
+    .forEach(key => localStorage.removeItem(key));
+};
+
+// Compares two immutable snapshots of a collection: changed/new records by reference, removed by key.
+// The record under `skipKey` (a reply still streaming in) is left out on both sides until it settles.
+export const diffRecords = <T>(prev: T[], next: T[], keyOf: (record: T) => string | number, skipKey: string | number | null = null) => {
+  const prevByKey = new Map(prev.map(r => [keyOf(r), r]));
+  const nextKeys = new Set<string | number>();
+  const upserts = next.filter(r => {
+    const k = keyOf(r);
+    nextKeys.add(k);
+    return k !== skipKey && prevByKey.get(k) !== r;
+  });
+  const deletes = Array.from(prevByKey.keys()).filter(k => k !== skipKey && !nextKeys.has(k));
+  return { upserts, deletes };
+};
+
+// Writes a migrated dataset back, touching only records the migration actually changed
+export const saveMigratedData = async (storage: StorageAdapter, before: LifeOSData, after: LifeOSData, version: number) => {
+  for (const collection of ['entries', 'messages', 'rawLogs', 'images'] as const) {
+    const keyOf = COLLECTION_KEYS[collection] as (r: any) => string | number;
+    const { upserts, deletes } = diffRecords<any>(before[collection], after[collection], keyOf);
+    await storage.putMany(collection, upserts);
+    await storage.deleteMany(collection, deletes);
+  }
+  for (const key of VALUE_KEYS) {
+    if (before[key] !== after[key]) await storage.setValue(key, after[key]);
+  }
+  await storage.setValue('dataVersion', version);
+};
+
+// Messages are keyed by timestamp in storage, so colliding timestamps are nudged apart
+export const ensureUniqueTimestamps = (messages: ChatMessage[]): ChatMessage[] => {
+  let last = -Infinity;
+  return [...messages].sort((a, b) => a.timestamp - b.timestamp).map(m => {
+    const timestamp = m.timestamp > last ? m.timestamp : last + 1;
+    last = timestamp;
+    return timestamp === m.timestamp ? m : { ...m, timestamp };
+  });
+};
+
+// Message timestamps double as storage keys, so two messages created in the same millisecond must differ
+let lastMessageTimestamp = 0;
+export const uniqueTimestamp = () => {
+  lastMessageTimestamp = Math.max(Date.now(), lastMessageTimestamp + 1);
+  return lastMessageTimestamp;
+};
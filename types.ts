@@ -0,0 +1,184 @@
+import type { ThinkingLevel } from '@google/genai';
+
+// Shared data shapes, kept free of runtime code so the data layer and its tests can import them
+
+// Schema types for the dynamic entry form
+export type FieldType = 'text' | 'number' | 'select' | 'multiselect' | 'date' | 'rating'
+  | 'duration' | 'time' | 'boolean' | 'money' | 'reference' | 'computed';
+
+export interface FieldSchema {
+  key: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  options?: string[]; // For select/multiselect
+  unit?: string; // For money, the default currency
+  placeholder?: string;
+  formula?: string; // For computed: arithmetic over other field keys, e.g. "calories / duration"
+  refCategory?: string; // For reference: only entries of this category can be linked
+  min?: number; // Numeric fields (money: the amount)
+  max?: number;
+  pattern?: string; // Regex that text values must match
+  defaultValue?: string; // Filled in when the value is missing: a static value, "today" or "now"
+  allowCustomOption?: boolean; // Select/multiselect keep values outside `options` instead of snapping to 其他
+}
+
+export interface MoneyValue {
+  amount: number;
+  currency: string;
+}
+
+export interface GroupDef {
+    id: string;
+    label: string;
+}
+
+export type TrendMode = 'daily' | 'weekly';
+
+export interface Entry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  category: string;
+  event: string;
+  details: Record<string, any>;
+  imageId?: string; // StoredImage, shared with the message the entry was extracted from
+  sourceMessageTimestamps?: number[]; // ChatMessage timestamps summarized into this entry (logger)
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model' | 'system';
+  text: string;
+  timestamp: number;
+  relatedEntryIds?: string[]; // IDs of entries created by this message
+  toolSteps?: ToolStep[]; // Database lookups the companion made while writing this reply
+  interrupted?: boolean; // Reply was stopped by the user before it finished streaming
+  imageId?: string; // StoredImage attached by the user
+  reviewEntries?: EntryValidation[]; // Organizer output that failed validation or is unsure, awaiting the user
+  draftEntryId?: string; // Follow-up question about this pending draft; the next reply answers it
+}
+
+export interface ToolStep {
+  name: string;
+  args: Record<string, any>;
+  result: any; // Preview only, see trimToolResult; the model got the full result
+}
+
+export interface EntryValidation {
+  entry: Entry;
+  issues: string[];
+  confidence?: number; // Organizer's own 0-1 estimate; absent for imports and edits
+  missing?: string[]; // Field keys the input didn't tell the organizer
+  question?: string; // Follow-up that would settle the draft
+}
+
+// A photo is stored once and referenced by id from the message it was sent with and the entries made from it
+export interface StoredImage {
+  id: string;
+  data: string; // Base64 JPEG
+}
+
+export interface AudioClip {
+    mimeType: string;
+    data: string; // Base64
+}
+
+export interface RawLog {
+    id: string;
+    timestamp: number;
+    text: string;
+    audio?: AudioClip; // Voice note the text was transcribed from
+}
+
+export type ModelPipeline = 'chat' | 'organizer' | 'classifier' | 'logger' | 'vision' | 'report';
+
+export interface ModelProfile {
+  model: string;
+  temperature: number | null; // null leaves the model default
+  maxOutputTokens: number | null;
+  thinkingBudget: number | null; // Gemini 2.5: tokens, 0 = off, -1 = dynamic
+  thinkingLevel: ThinkingLevel | null; // Gemini 3
+}
+
+export interface AISettings {
+  chatInstructions: string;
+  organizerInstructions: string;
+  loggerInstructions: string;
+  batchSize: number;
+  models: Record<ModelPipeline, ModelProfile>; // `vision` handles photo organizing and voice transcription
+}
+
+export interface ChatSettings {
+    chatEnabled: boolean;
+    organizerEnabled: boolean;
+    contextRounds: number; // 9999 for infinite
+    contextMode: 'global' | 'today' | 'week' | 'custom';
+    customStartDate: string;
+    customEndDate: string;
+    includeSystemNotices: boolean; // Feed "Saved:" / "Logged:" notices back to the companion
+    contextTokenBudget: number; // Approximate cap on history tokens; oldest exchanges are dropped first
+    keepVoiceRecordings: boolean; // Store push-to-talk audio on the raw log for playback
+}
+
+export interface ExchangeRate {
+    id: string;
+    date: string; // YYYY-MM-DD the rate takes effect
+    from: string;
+    to: string;
+    rate: number; // 1 `from` = `rate` `to`
+}
+
+export interface CurrencySettings {
+    baseCurrency: string; // Finance totals are reported in this currency
+    exchangeRates: ExchangeRate[];
+}
+
+// Everything the app persists, as one object (used for backup bundles)
+export interface LifeOSData {
+    entries: Entry[];
+    messages: ChatMessage[];
+    rawLogs: RawLog[];
+    images: StoredImage[];
+    aiConfig: AISettings;
+    chatSettings: ChatSettings;
+    customSchemas: Record<string, FieldSchema[]>;
+    groups: GroupDef[];
+    categoryMeta: Record<string, any>;
+    loggerWatermark: number;
+    financeBudgets: Record<string, number>; // Monthly spending limit per finance tag, in the base currency
+    currencySettings: CurrencySettings;
+}
+
+export interface BackupBundle {
+    app: 'lifeos';
+    version: number;
+    dataVersion?: number; // Migration level of `data`; bundles without it predate migrations
+    exportedAt: string;
+    data: LifeOSData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface CategoryExample {
+    input: string; // What the user might say
+    details: string; // JSON object the organizer should return as `details` for that input
+}
+
+// A shareable category setup: everything in categoryMeta except the group, plus the schema
+export interface CategoryTemplate {
+    key: string; // Suggested key; renamed on install if it is taken
+    meta: {
+        label: string;
+        color: string;
+        icon: string;
+        trend?: TrendMode;
+        description?: string; // What belongs here; also what pre-classification sees
+        hints?: string; // Extraction guidance for the organizer
+        examples?: CategoryExample[];
+    };
+    fields: FieldSchema[];
+}
+
+export interface CategoryTemplateFile extends CategoryTemplate {
+    app: 'lifeos-category';
+    version: number;
+}